@@ -2,21 +2,33 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { AuthProvider } from "./hooks/use-auth";
+import { EndToEndProvider } from "./hooks/use-end-to-end";
+import { useServerEvents } from "./hooks/use-server-events";
 import { Toaster } from "@/components/ui/toaster";
 import NotFound from "@/pages/not-found";
 import AuthPage from "@/pages/auth-page";
 import HomePage from "@/pages/home-page";
 import DocumentsPage from "@/pages/documents-page";
 import RequestAccessPage from "@/pages/request-access-page";
+import RequestStatusPage from "@/pages/request-status-page";
+import AccessRequestsPage from "@/pages/access-requests-page";
+import TrashPage from "@/pages/trash-page";
+import AdminBlocksPage from "@/pages/admin-blocks-page";
 import { ProtectedRoute } from "./lib/protected-route";
 
 function Router() {
+  useServerEvents();
+
   return (
     <Switch>
       <Route path="/auth" component={AuthPage} />
-      <Route path="/request-access/:userId" component={RequestAccessPage} />
+      <Route path="/request-access/:token" component={RequestAccessPage} />
+      <Route path="/request-status/:receipt" component={RequestStatusPage} />
       <ProtectedRoute path="/" component={HomePage} />
       <ProtectedRoute path="/documents" component={DocumentsPage} />
+      <ProtectedRoute path="/access-requests" component={AccessRequestsPage} />
+      <ProtectedRoute path="/trash" component={TrashPage} />
+      <ProtectedRoute path="/admin/blocks" component={AdminBlocksPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -26,8 +38,10 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <Router />
-        <Toaster />
+        <EndToEndProvider>
+          <Router />
+          <Toaster />
+        </EndToEndProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import type { CustomFieldType, DocumentFilter, FieldCondition } from "@shared/schema";
+import { customFieldTypes } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { describeCondition, isFilterActive, parseTags } from "@/lib/labels";
+import { Filter, X } from "lucide-react";
+
+const operators: Record<CustomFieldType, FieldCondition["op"][]> = {
+  text: ["eq", "contains"],
+  date: ["eq", "lt", "gt"],
+  number: ["eq", "lt", "gt"],
+};
+
+const operatorNames: Record<FieldCondition["op"], string> = {
+  eq: "is",
+  contains: "contains",
+  lt: "less than / before",
+  gt: "greater than / after",
+};
+
+type DocumentFilterBarProps = {
+  filter: DocumentFilter;
+  onChange: (filter: DocumentFilter) => void;
+};
+
+// Tags are typed in directly; field conditions are built one at a time and
+// collected as removable badges
+export function DocumentFilterBar({ filter, onChange }: DocumentFilterBarProps) {
+  const [tags, setTags] = useState((filter.tags ?? []).join(", "));
+  const [key, setKey] = useState("");
+  const [type, setType] = useState<CustomFieldType>("text");
+  const [op, setOp] = useState<FieldCondition["op"]>("eq");
+  const [value, setValue] = useState("");
+  const fields = filter.fields ?? [];
+
+  const addCondition = () => {
+    if (!key.trim() || !value.trim()) return;
+    const condition = {
+      key: key.trim(),
+      type,
+      op,
+      value: type === "number" ? Number(value) : value.trim(),
+    } as FieldCondition;
+    onChange({ ...filter, fields: [...fields, condition] });
+    setKey("");
+    setValue("");
+  };
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          className="w-64"
+          placeholder="Tags, comma-separated"
+          value={tags}
+          onChange={(e) => setTags(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && onChange({ ...filter, tags: parseTags(tags) })}
+        />
+        <Input
+          className="w-32"
+          placeholder="Field"
+          value={key}
+          onChange={(e) => setKey(e.target.value)}
+        />
+        <Select
+          value={type}
+          onValueChange={(next) => {
+            setType(next as CustomFieldType);
+            setOp("eq");
+            setValue("");
+          }}
+        >
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {customFieldTypes.map((fieldType) => (
+              <SelectItem key={fieldType} value={fieldType}>
+                {fieldType}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={op} onValueChange={(next) => setOp(next as FieldCondition["op"])}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {operators[type].map((operator) => (
+              <SelectItem key={operator} value={operator}>
+                {operatorNames[operator]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          className="w-40"
+          type={type}
+          placeholder="Value"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+        />
+        <Button variant="outline" size="sm" onClick={addCondition}>
+          Add Condition
+        </Button>
+        <Button size="sm" onClick={() => onChange({ ...filter, tags: parseTags(tags) })}>
+          <Filter className="mr-2 h-4 w-4" />
+          Filter
+        </Button>
+        {isFilterActive(filter) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              setTags("");
+              onChange({});
+            }}
+          >
+            Clear
+          </Button>
+        )}
+      </div>
+      {fields.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {fields.map((condition, index) => (
+            <Badge key={index} variant="secondary" className="gap-1">
+              {describeCondition(condition)}
+              <button
+                aria-label="Remove condition"
+                onClick={() =>
+                  onChange({ ...filter, fields: fields.filter((_, i) => i !== index) })
+                }
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import type { DocumentListing, Folder } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { DocumentThumbnail } from "@/components/document-thumbnail";
+import { useDocumentDownload } from "@/hooks/use-end-to-end";
+import { formatBytes } from "@/lib/utils";
+import { Download, Eye, Folder as FolderIcon } from "lucide-react";
+
+type DocumentGalleryProps = {
+  folders: Folder[];
+  documents: DocumentListing[];
+  selectedIds: number[];
+  onToggleSelected: (id: number) => void;
+  onOpenFolder: (id: number) => void;
+  onView: (document: DocumentListing) => void;
+};
+
+// The listing as cards with thumbnails. Management actions stay in the table
+// view; cards can be selected for the bulk actions below the listing.
+export function DocumentGallery({
+  folders,
+  documents,
+  selectedIds,
+  onToggleSelected,
+  onOpenFolder,
+  onView,
+}: DocumentGalleryProps) {
+  const download = useDocumentDownload();
+
+  return (
+    <div className="grid grid-cols-2 gap-4 sm:grid-cols-3 lg:grid-cols-4">
+      {folders.map((folder) => (
+        <Card
+          key={`folder-${folder.id}`}
+          className="cursor-pointer hover:bg-muted/40"
+          onClick={() => onOpenFolder(folder.id)}
+        >
+          <CardContent className="flex h-full flex-col items-center justify-center gap-2 p-4">
+            <FolderIcon className="h-10 w-10 text-muted-foreground" />
+            <p className="truncate font-medium">{folder.name}</p>
+          </CardContent>
+        </Card>
+      ))}
+      {documents.map((doc) => (
+        <Card key={doc.id}>
+          <CardContent className="space-y-2 p-3">
+            <button className="block w-full" onClick={() => onView(doc)}>
+              <DocumentThumbnail document={doc} size="lg" />
+            </button>
+            <div className="flex items-start gap-2">
+              <Checkbox
+                className="mt-0.5"
+                checked={selectedIds.includes(doc.id)}
+                onCheckedChange={() => onToggleSelected(doc.id)}
+                aria-label={`Select ${doc.name}`}
+              />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium" title={doc.name}>
+                  {doc.name}
+                </p>
+                <p className="text-xs text-muted-foreground">{formatBytes(doc.size)}</p>
+              </div>
+            </div>
+            <div className="flex justify-end gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                title="View"
+                onClick={() => onView(doc)}
+              >
+                <Eye className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Download"
+                onClick={() => download(doc)}
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  customFieldTypes,
+  type CustomFields,
+  type CustomFieldType,
+  type DocumentMetadata,
+  type UpdateDocumentLabels,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { parseTags } from "@/lib/labels";
+import { Plus, X } from "lucide-react";
+
+// One editable custom field; the value stays a string until saving
+type FieldRow = { key: string; type: CustomFieldType; value: string };
+
+const inputTypes: Record<CustomFieldType, string> = { text: "text", date: "date", number: "number" };
+
+function toRows(fields: CustomFields): FieldRow[] {
+  return Object.entries(fields).map(([key, field]) => ({
+    key,
+    type: field.type,
+    value: String(field.value),
+  }));
+}
+
+function toCustomFields(rows: FieldRow[]): CustomFields {
+  const fields: CustomFields = {};
+  for (const { key, type, value } of rows) {
+    if (!key.trim() || !value.trim()) continue;
+    fields[key.trim()] =
+      type === "number" ? { type, value: Number(value) } : { type, value: value.trim() };
+  }
+  return fields;
+}
+
+type DocumentLabelsDialogProps = {
+  document: DocumentMetadata | null;
+  onClose: () => void;
+};
+
+export function DocumentLabelsDialog({ document, onClose }: DocumentLabelsDialogProps) {
+  const { toast } = useToast();
+  const [tags, setTags] = useState("");
+  const [rows, setRows] = useState<FieldRow[]>([]);
+
+  useEffect(() => {
+    if (!document) return;
+    setTags(document.tags.join(", "));
+    setRows(toRows(document.customFields));
+  }, [document]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (labels: UpdateDocumentLabels) => {
+      await apiRequest("PATCH", `/api/documents/${document!.id}`, labels);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({ title: "Labels saved" });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save labels",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateRow = (index: number, changes: Partial<FieldRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  return (
+    <Dialog open={!!document} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Labels for {document?.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="document-tags">Tags</Label>
+            <Input
+              id="document-tags"
+              placeholder="invoice, 2024, client-a"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Fields</Label>
+            {rows.map((row, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  className="w-40"
+                  placeholder="Name"
+                  value={row.key}
+                  onChange={(e) => updateRow(index, { key: e.target.value })}
+                />
+                <Select
+                  value={row.type}
+                  onValueChange={(type) => updateRow(index, { type: type as CustomFieldType, value: "" })}
+                >
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {customFieldTypes.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {type}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type={inputTypes[row.type]}
+                  placeholder="Value"
+                  value={row.value}
+                  onChange={(e) => updateRow(index, { value: e.target.value })}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  title="Remove field"
+                  onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRows((prev) => [...prev, { key: "", type: "text", value: "" }])}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Add Field
+            </Button>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() =>
+              saveMutation.mutate({ tags: parseTags(tags), customFields: toCustomFields(rows) })
+            }
+            disabled={saveMutation.isPending}
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
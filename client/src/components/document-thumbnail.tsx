@@ -0,0 +1,56 @@
+import type { DocumentListing } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { File, FileImage, FileText } from "lucide-react";
+
+type DocumentThumbnailProps = {
+  document: DocumentListing;
+  // "sm" for table rows; "lg" for gallery cards, which also show text previews
+  size: "sm" | "lg";
+  className?: string;
+};
+
+function TypeIcon({ contentType, className }: { contentType: string; className?: string }) {
+  if (contentType.startsWith("image/")) return <FileImage className={className} />;
+  if (contentType.startsWith("text/") || contentType.includes("pdf") || contentType.includes("word")) {
+    return <FileText className={className} />;
+  }
+  return <File className={className} />;
+}
+
+export function DocumentThumbnail({ document, size, className }: DocumentThumbnailProps) {
+  const box = size === "sm" ? "h-10 w-10" : "h-40 w-full";
+
+  if (document.thumbnailUrl) {
+    return (
+      <img
+        src={document.thumbnailUrl}
+        alt=""
+        loading="lazy"
+        className={cn(box, "rounded border bg-white object-contain", className)}
+      />
+    );
+  }
+
+  if (size === "lg" && document.previewText) {
+    return (
+      <div
+        className={cn(
+          box,
+          "overflow-hidden whitespace-pre-wrap rounded border bg-muted/40 p-2 text-[10px] leading-tight text-muted-foreground",
+          className,
+        )}
+      >
+        {document.previewText}
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn(box, "flex items-center justify-center rounded border bg-muted/40", className)}>
+      <TypeIcon
+        contentType={document.contentType}
+        className={cn("text-muted-foreground", size === "sm" ? "h-5 w-5" : "h-10 w-10")}
+      />
+    </div>
+  );
+}
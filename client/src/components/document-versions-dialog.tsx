@@ -0,0 +1,161 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { DocumentMetadata, DocumentVersionInfo } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useDocumentDownload } from "@/hooks/use-end-to-end";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatBytes } from "@/lib/utils";
+import { Download, Loader2, QrCode, RotateCcw } from "lucide-react";
+
+type DocumentVersionsDialogProps = {
+  document: DocumentMetadata | null;
+  onClose: () => void;
+  // Creates a share link pinned to one version of the document
+  onShareVersion: (documentId: number, version: number) => void;
+};
+
+export function DocumentVersionsDialog({
+  document,
+  onClose,
+  onShareVersion,
+}: DocumentVersionsDialogProps) {
+  const { toast } = useToast();
+  const download = useDocumentDownload();
+  const versionsKey = `/api/documents/${document?.id}/versions`;
+
+  const { data: versions, isLoading } = useQuery<DocumentVersionInfo[]>({
+    queryKey: [versionsKey],
+    enabled: !!document,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      await apiRequest("POST", `/api/documents/${document!.id}/versions/${version}/restore`);
+    },
+    onSuccess: (_, version) => {
+      queryClient.invalidateQueries({ queryKey: [versionsKey] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({ title: `Version ${version} restored` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Restore failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Newest first, so the first entry is what the document currently holds
+  const currentVersion = versions?.[0]?.version;
+
+  return (
+    <Dialog open={!!document} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Versions of {document?.name}</DialogTitle>
+        </DialogHeader>
+        {isLoading ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Version</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead>Uploaded</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {versions?.map((version) => {
+                const isCurrent = version.version === currentVersion;
+                return (
+                  <TableRow key={version.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        v{version.version}
+                        {isCurrent && <Badge variant="secondary">Current</Badge>}
+                      </div>
+                      {version.restoredFrom && (
+                        <p className="text-xs text-muted-foreground">
+                          Restored from v{version.restoredFrom}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatBytes(version.size)}</TableCell>
+                    <TableCell>{new Date(version.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>{version.uploader.username}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Download this version"
+                          onClick={() =>
+                            download(
+                              {
+                                id: document!.id,
+                                name: document!.name,
+                                contentType: version.contentType,
+                                endToEnd: version.endToEnd,
+                              },
+                              { version: String(version.version) },
+                            )
+                          }
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="QR code pinned to this version"
+                          onClick={() => onShareVersion(document!.id, version.version)}
+                        >
+                          <QrCode className="h-4 w-4" />
+                        </Button>
+                        {!isCurrent && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Restore this version"
+                            onClick={() => {
+                              if (confirm(`Restore version ${version.version}? It will become the newest version.`)) {
+                                restoreMutation.mutate(version.version);
+                              }
+                            }}
+                            disabled={restoreMutation.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,540 @@
+import { useEffect, useRef, useState, type RefObject } from "react";
+import { useQuery } from "@tanstack/react-query";
+import Markdown from "react-markdown";
+import type { DocumentMetadata } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { useDocumentDownload, useUnlockKey, type AccessParams } from "@/hooks/use-end-to-end";
+import { fetchDecrypted } from "@/lib/end-to-end";
+import { getDocument, type PDFDocumentProxy, type TextItem } from "@/lib/pdf";
+import {
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  Download,
+  File,
+  Loader2,
+  ZoomIn,
+  ZoomOut,
+} from "lucide-react";
+
+type ViewerDocument = Pick<DocumentMetadata, "id" | "name" | "contentType" | "endToEnd">;
+
+type ViewerKind = "pdf" | "image" | "markdown" | "text" | "docx";
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+const DEFAULT_ZOOM = ZOOM_LEVELS.indexOf(1);
+
+// End-to-end encrypted Word documents cannot be shown: the server converts
+// them for display, and it cannot read them
+function viewerKind({ contentType, endToEnd }: ViewerDocument): ViewerKind | null {
+  if (contentType === "application/pdf") return "pdf";
+  if (contentType.startsWith("image/")) return "image";
+  if (contentType === "text/markdown") return "markdown";
+  if (contentType.startsWith("text/")) return "text";
+  if (
+    contentType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document" &&
+    !endToEnd
+  ) {
+    return "docx";
+  }
+  return null;
+}
+
+function documentUrl(id: number, endpoint: string, access?: AccessParams) {
+  const url = `/api/documents/${id}/${endpoint}`;
+  return access ? `${url}?${new URLSearchParams(access)}` : url;
+}
+
+async function fetchText(url: string) {
+  const res = await fetch(url, { credentials: "include" });
+  if (!res.ok) throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  return await res.text();
+}
+
+// Where the views load the document from: the view endpoint, or for end-to-end
+// encrypted documents the bytes decrypted in the browser, as an object URL
+function useDocumentSource(document: ViewerDocument, access?: AccessParams) {
+  const viewUrl = documentUrl(document.id, "view", access);
+  const unlock = useUnlockKey(access);
+  const [source, setSource] = useState<{ url?: string; error?: string }>(
+    document.endToEnd ? {} : { url: viewUrl },
+  );
+
+  useEffect(() => {
+    if (!document.endToEnd) return;
+    let cancelled = false;
+    let objectUrl: string | undefined;
+
+    (async () => {
+      if (!(await unlock())) {
+        throw new Error("This document is end-to-end encrypted; its passphrase is needed to open it");
+      }
+      const blob = await fetchDecrypted(viewUrl, document.id, document.contentType);
+      if (cancelled) return;
+      objectUrl = URL.createObjectURL(blob);
+      setSource({ url: objectUrl });
+    })().catch((error: Error) => !cancelled && setSource({ error: error.message }));
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+    // `unlock` is a new function every render; the document is what matters
+  }, [document.id, document.endToEnd, document.contentType, viewUrl]);
+
+  return source;
+}
+
+// Search props shared by every view that supports it. Views report how many
+// matches they found and bring `currentMatch` into view.
+type SearchProps = {
+  query: string;
+  currentMatch: number;
+  onMatches: (count: number) => void;
+};
+
+// Finds `query` in the text rendered under `container` and marks matches with
+// the CSS Custom Highlight API, which leaves the DOM that React owns alone.
+// `content` changes whenever what is rendered does.
+function useTextHighlights(
+  container: RefObject<HTMLElement>,
+  content: unknown,
+  { query, currentMatch, onMatches }: SearchProps,
+) {
+  const [ranges, setRanges] = useState<Range[]>([]);
+
+  useEffect(() => {
+    const found: Range[] = [];
+    const needle = query.toLowerCase();
+    if (container.current && needle) {
+      const walker = document.createTreeWalker(container.current, NodeFilter.SHOW_TEXT);
+      for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+        const text = (node.textContent ?? "").toLowerCase();
+        for (let at = text.indexOf(needle); at !== -1; at = text.indexOf(needle, at + needle.length)) {
+          const range = document.createRange();
+          range.setStart(node, at);
+          range.setEnd(node, at + needle.length);
+          found.push(range);
+        }
+      }
+    }
+    setRanges(found);
+    onMatches(found.length);
+  }, [container, content, query, onMatches]);
+
+  useEffect(() => {
+    const current = ranges[currentMatch];
+    current?.startContainer.parentElement?.scrollIntoView({ block: "center" });
+
+    if (!("highlights" in CSS)) return;
+    CSS.highlights.set("viewer-match", new Highlight(...ranges));
+    if (current) CSS.highlights.set("viewer-current", new Highlight(current));
+    return () => {
+      CSS.highlights.delete("viewer-match");
+      CSS.highlights.delete("viewer-current");
+    };
+  }, [ranges, currentMatch]);
+}
+
+function ViewerMessage({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="flex h-full items-center justify-center p-8 text-center text-muted-foreground">
+      {children}
+    </div>
+  );
+}
+
+function Loading() {
+  return (
+    <ViewerMessage>
+      <Loader2 className="h-8 w-8 animate-spin" />
+    </ViewerMessage>
+  );
+}
+
+type PdfViewProps = SearchProps & {
+  url: string;
+  zoom: number;
+  page: number;
+  onPageCount: (count: number) => void;
+  onPageChange: (page: number) => void;
+};
+
+type PdfMatch = { page: number; item: TextItem };
+
+// Renders one page at a time onto a canvas, fitted to the viewer's width at
+// zoom 1. Matches are drawn over the text items that contain them.
+function PdfView({
+  url,
+  zoom,
+  page,
+  onPageCount,
+  onPageChange,
+  query,
+  currentMatch,
+  onMatches,
+}: PdfViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [matches, setMatches] = useState<PdfMatch[]>([]);
+  const pageText = useRef(new Map<number, TextItem[]>());
+
+  useEffect(() => {
+    setPdf(null);
+    setError(null);
+    pageText.current.clear();
+    const task = getDocument({ url, withCredentials: true, isEvalSupported: false });
+    task.promise.then(
+      (loaded) => {
+        setPdf(loaded);
+        onPageCount(loaded.numPages);
+      },
+      (loadError: Error) => setError(loadError.message),
+    );
+    return () => {
+      task.destroy();
+    };
+  }, [url, onPageCount]);
+
+  // Page text is fetched once per page, the first time a search needs it
+  useEffect(() => {
+    if (!pdf) return;
+    let cancelled = false;
+    const needle = query.toLowerCase();
+
+    (async () => {
+      const found: PdfMatch[] = [];
+      if (needle) {
+        for (let number = 1; number <= pdf.numPages && !cancelled; number++) {
+          let items = pageText.current.get(number);
+          if (!items) {
+            const content = await (await pdf.getPage(number)).getTextContent();
+            items = content.items.filter((item): item is TextItem => "str" in item);
+            pageText.current.set(number, items);
+          }
+          for (const item of items) {
+            if (item.str.toLowerCase().includes(needle)) found.push({ page: number, item });
+          }
+        }
+      }
+      if (cancelled) return;
+      setMatches(found);
+      onMatches(found.length);
+    })().catch((searchError: Error) => setError(searchError.message));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, query, onMatches]);
+
+  useEffect(() => {
+    const match = matches[currentMatch];
+    if (match && match.page !== page) onPageChange(match.page);
+  }, [matches, currentMatch, page, onPageChange]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!pdf || !canvas || !container) return;
+    let cancelled = false;
+    let cancelRender = () => {};
+
+    (async () => {
+      const pdfPage = await pdf.getPage(page);
+      if (cancelled) return;
+      const fitScale = (container.clientWidth - 16) / pdfPage.getViewport({ scale: 1 }).width;
+      const viewport = pdfPage.getViewport({ scale: fitScale * zoom });
+      const pixelRatio = window.devicePixelRatio || 1;
+
+      canvas.width = Math.floor(viewport.width * pixelRatio);
+      canvas.height = Math.floor(viewport.height * pixelRatio);
+      canvas.style.width = `${Math.floor(viewport.width)}px`;
+      canvas.style.height = `${Math.floor(viewport.height)}px`;
+      const context = canvas.getContext("2d")!;
+
+      const render = pdfPage.render({
+        canvasContext: context,
+        viewport,
+        transform: pixelRatio === 1 ? undefined : [pixelRatio, 0, 0, pixelRatio, 0, 0],
+      });
+      cancelRender = () => render.cancel();
+      await render.promise;
+      if (cancelled) return;
+
+      context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+      matches.forEach((match, index) => {
+        if (match.page !== page) return;
+        const [x, y] = [match.item.transform[4], match.item.transform[5]];
+        const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([
+          x,
+          y,
+          x + match.item.width,
+          y + match.item.height,
+        ]);
+        context.fillStyle =
+          index === currentMatch ? "rgba(249, 115, 22, 0.4)" : "rgba(250, 204, 21, 0.4)";
+        context.fillRect(Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1));
+      });
+    })().catch((renderError: Error) => {
+      if (renderError.name !== "RenderingCancelledException") setError(renderError.message);
+    });
+
+    return () => {
+      cancelled = true;
+      cancelRender();
+    };
+  }, [pdf, page, zoom, matches, currentMatch]);
+
+  if (error) return <ViewerMessage>Could not display this PDF: {error}</ViewerMessage>;
+  return (
+    <div ref={containerRef} className="flex min-h-full justify-center bg-muted/40 p-2">
+      {!pdf && <Loading />}
+      <canvas ref={canvasRef} className={pdf ? "shadow" : "hidden"} />
+    </div>
+  );
+}
+
+function ImageView({ url, zoom, name }: { url: string; zoom: number; name: string }) {
+  return (
+    <div className="flex min-h-full items-start justify-center bg-muted/40 p-2">
+      <img src={url} alt={name} style={{ width: `${zoom * 100}%` }} className="max-w-none" />
+    </div>
+  );
+}
+
+type TextViewProps = SearchProps & { url: string; zoom: number; markdown: boolean };
+
+function TextView({ url, zoom, markdown, ...search }: TextViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { data: text, isLoading, error } = useQuery({
+    queryKey: [url],
+    queryFn: () => fetchText(url),
+  });
+  useTextHighlights(containerRef, text, search);
+
+  if (isLoading) return <Loading />;
+  if (error) return <ViewerMessage>Could not load this document: {error.message}</ViewerMessage>;
+  return (
+    <div ref={containerRef} style={{ zoom }} className="p-4">
+      {markdown ? (
+        <div className="prose max-w-none dark:prose-invert">
+          <Markdown>{text}</Markdown>
+        </div>
+      ) : (
+        <pre className="whitespace-pre-wrap break-words font-mono text-sm">{text}</pre>
+      )}
+    </div>
+  );
+}
+
+type DocxViewProps = SearchProps & { id: number; access?: AccessParams; zoom: number };
+
+// Word documents are converted to HTML on the server, which strips anything
+// that could run script
+function DocxView({ id, access, zoom, ...search }: DocxViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const { data, isLoading, error } = useQuery<{ html: string }>({
+    queryKey: [`/api/documents/${id}/preview`, access],
+  });
+  useTextHighlights(containerRef, data, search);
+
+  if (isLoading) return <Loading />;
+  if (error) return <ViewerMessage>Could not load this document: {error.message}</ViewerMessage>;
+  return (
+    <div ref={containerRef} style={{ zoom }} className="p-4">
+      <div
+        className="prose max-w-none dark:prose-invert"
+        dangerouslySetInnerHTML={{ __html: data!.html }}
+      />
+    </div>
+  );
+}
+
+type DocumentViewerProps = {
+  document: ViewerDocument;
+  access?: AccessParams;
+};
+
+export function DocumentViewer({ document, access }: DocumentViewerProps) {
+  const kind = viewerKind(document);
+  const source = useDocumentSource(document, access);
+  const download = useDocumentDownload(access);
+
+  const [zoomLevel, setZoomLevel] = useState(DEFAULT_ZOOM);
+  const [page, setPage] = useState(1);
+  const [pageCount, setPageCount] = useState(0);
+  const [searchText, setSearchText] = useState("");
+  const query = useDebouncedValue(searchText.trim());
+  const [matchCount, setMatchCount] = useState(0);
+  const [currentMatch, setCurrentMatch] = useState(0);
+
+  useEffect(() => setCurrentMatch(0), [query]);
+
+  const zoom = ZOOM_LEVELS[zoomLevel];
+  const search = { query, currentMatch, onMatches: setMatchCount };
+  const searchable = kind !== null && kind !== "image";
+  const stepMatch = (step: number) =>
+    setCurrentMatch((current) => (current + step + matchCount) % matchCount);
+
+  return (
+    <div className="flex h-full min-h-0 flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {kind && (
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="sm"
+              title="Zoom out"
+              onClick={() => setZoomLevel(zoomLevel - 1)}
+              disabled={zoomLevel === 0}
+            >
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <span className="w-12 text-center text-sm">{Math.round(zoom * 100)}%</span>
+            <Button
+              variant="outline"
+              size="sm"
+              title="Zoom in"
+              onClick={() => setZoomLevel(zoomLevel + 1)}
+              disabled={zoomLevel === ZOOM_LEVELS.length - 1}
+            >
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        {kind === "pdf" && pageCount > 0 && (
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="sm"
+              title="Previous page"
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm">
+              Page {page} of {pageCount}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              title="Next page"
+              onClick={() => setPage(page + 1)}
+              disabled={page >= pageCount}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        {searchable && (
+          <div className="ml-auto flex items-center gap-1">
+            <Input
+              className="h-9 w-48"
+              type="search"
+              placeholder="Find in document"
+              value={searchText}
+              onChange={(e) => setSearchText(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && matchCount && stepMatch(e.shiftKey ? -1 : 1)}
+            />
+            {query && (
+              <span className="w-16 text-center text-sm text-muted-foreground">
+                {matchCount ? `${currentMatch + 1} of ${matchCount}` : "No matches"}
+              </span>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              title="Previous match"
+              onClick={() => stepMatch(-1)}
+              disabled={!matchCount}
+            >
+              <ChevronUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              title="Next match"
+              onClick={() => stepMatch(1)}
+              disabled={!matchCount}
+            >
+              <ChevronDown className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="min-h-0 flex-1 overflow-auto rounded-md border">
+        {kind !== null && source.error && (
+          <ViewerMessage>Could not open this document: {source.error}</ViewerMessage>
+        )}
+        {kind !== null && !source.url && !source.error && <Loading />}
+        {kind === "pdf" && source.url && (
+          <PdfView
+            url={source.url}
+            zoom={zoom}
+            page={page}
+            onPageCount={setPageCount}
+            onPageChange={setPage}
+            {...search}
+          />
+        )}
+        {kind === "image" && source.url && (
+          <ImageView url={source.url} zoom={zoom} name={document.name} />
+        )}
+        {(kind === "text" || kind === "markdown") && source.url && (
+          <TextView url={source.url} zoom={zoom} markdown={kind === "markdown"} {...search} />
+        )}
+        {kind === "docx" && <DocxView id={document.id} access={access} zoom={zoom} {...search} />}
+        {kind === null && (
+          <ViewerMessage>
+            <div className="space-y-4">
+              <p>
+                {document.endToEnd
+                  ? "End-to-end encrypted documents of this type cannot be shown here."
+                  : `This type of document (${document.contentType}) cannot be shown here.`}
+              </p>
+              <Button onClick={() => download(document)}>
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </Button>
+            </div>
+          </ViewerMessage>
+        )}
+      </div>
+    </div>
+  );
+}
+
+type DocumentViewerDialogProps = {
+  document: ViewerDocument | null;
+  access?: AccessParams;
+  onClose: () => void;
+};
+
+export function DocumentViewerDialog({ document, access, onClose }: DocumentViewerDialogProps) {
+  return (
+    <Dialog open={!!document} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="flex h-[85vh] w-full max-w-5xl flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <File className="h-5 w-5" />
+            {document?.name}
+          </DialogTitle>
+        </DialogHeader>
+        {document && <DocumentViewer key={document.id} document={document} access={access} />}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,17 @@
+import type { HighlightedText as HighlightedParts } from "@shared/schema";
+
+export function HighlightedText({ parts }: { parts: HighlightedParts }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-foreground">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        ),
+      )}
+    </>
+  );
+}
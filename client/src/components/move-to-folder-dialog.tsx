@@ -0,0 +1,81 @@
+import { useEffect, useState } from "react";
+import { Folder } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { folderOptions } from "@/lib/folders";
+
+const TOP_LEVEL = "top";
+
+type MoveToFolderDialogProps = {
+  open: boolean;
+  title: string;
+  folders: Folder[];
+  // When moving a folder: it and its subfolders are not valid destinations
+  excludeFolderId?: number;
+  isPending?: boolean;
+  onClose: () => void;
+  onMove: (folderId: number | null) => void;
+};
+
+export function MoveToFolderDialog({
+  open,
+  title,
+  folders,
+  excludeFolderId,
+  isPending,
+  onClose,
+  onMove,
+}: MoveToFolderDialogProps) {
+  const [destination, setDestination] = useState(TOP_LEVEL);
+
+  useEffect(() => {
+    if (open) setDestination(TOP_LEVEL);
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <Select value={destination} onValueChange={setDestination}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={TOP_LEVEL}>Top level</SelectItem>
+            {folderOptions(folders, excludeFolderId).map((option) => (
+              <SelectItem key={option.id} value={String(option.id)}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onMove(destination === TOP_LEVEL ? null : Number(destination))}
+            disabled={isPending}
+          >
+            Move
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+
+type PassphraseDialogProps = {
+  open: boolean;
+  // Choosing a passphrase for the first time asks for it twice
+  isNew: boolean;
+  // Resolves to an error message to show, or null once the passphrase is accepted
+  onSubmit: (passphrase: string) => Promise<string | null>;
+  onCancel: () => void;
+};
+
+export function PassphraseDialog({ open, isNew, onSubmit, onCancel }: PassphraseDialogProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isPending, setIsPending] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setPassphrase("");
+      setConfirmation("");
+      setError(null);
+    }
+  }, [open]);
+
+  const submit = async () => {
+    if (!passphrase) return;
+    if (isNew && passphrase !== confirmation) {
+      setError("The passphrases don't match");
+      return;
+    }
+    setIsPending(true);
+    try {
+      setError(await onSubmit(passphrase));
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Please try again");
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !isPending && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {isNew ? "Choose an Encryption Passphrase" : "Unlock Encrypted Documents"}
+          </DialogTitle>
+          <DialogDescription>
+            {isNew
+              ? "End-to-end encrypted documents can only be opened with this passphrase. It is never sent to the server and cannot be recovered if you forget it."
+              : "Enter your passphrase for end-to-end encrypted documents."}
+          </DialogDescription>
+        </DialogHeader>
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            submit();
+          }}
+          className="space-y-4"
+        >
+          <div className="space-y-2">
+            <Label htmlFor="passphrase">Passphrase</Label>
+            <Input
+              id="passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(event) => setPassphrase(event.target.value)}
+              autoFocus
+            />
+          </div>
+          {isNew && (
+            <div className="space-y-2">
+              <Label htmlFor="passphrase-confirmation">Confirm Passphrase</Label>
+              <Input
+                id="passphrase-confirmation"
+                type="password"
+                value={confirmation}
+                onChange={(event) => setConfirmation(event.target.value)}
+              />
+            </div>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel} disabled={isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!passphrase || isPending}>
+              {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {isNew ? "Set Passphrase" : "Unlock"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { SearchResult, SearchResultPage } from "@shared/schema";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { HighlightedText } from "@/components/highlighted-text";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { FileText, Loader2, Search } from "lucide-react";
+
+const PALETTE_RESULTS = 8;
+
+type SearchPaletteProps = {
+  onOpenDocument: (document: SearchResult) => void;
+  // Shows every result for the text on the page rather than in the palette
+  onSearchAll: (text: string) => void;
+};
+
+// Opened with Ctrl+K / Cmd+K. Ranking and matching happen on the server, so
+// cmdk's own filtering is switched off.
+export function SearchPalette({ onOpenDocument, onSearchAll }: SearchPaletteProps) {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  const q = useDebouncedValue(text.trim());
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((isOpen) => !isOpen);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const { data, isFetching } = useQuery<SearchResultPage>({
+    queryKey: ["/api/search", { q, pageSize: PALETTE_RESULTS }],
+    enabled: open && !!q,
+  });
+
+  const close = () => {
+    setOpen(false);
+    setText("");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? setOpen(true) : close())}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg">
+        <Command shouldFilter={false} className="[&_[cmdk-input]]:h-12 [&_[cmdk-item]]:py-3">
+          <CommandInput
+            placeholder="Search names, tags and contents…"
+            value={text}
+            onValueChange={setText}
+          />
+          <CommandList>
+            {q && !isFetching && <CommandEmpty>No documents found.</CommandEmpty>}
+            {isFetching && !data && (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin" />
+              </div>
+            )}
+            {q && !!data?.results.length && (
+              <CommandGroup heading="Documents">
+                {data.results.map((result) => (
+                  <CommandItem
+                    key={result.id}
+                    value={String(result.id)}
+                    onSelect={() => {
+                      close();
+                      onOpenDocument(result);
+                    }}
+                  >
+                    <FileText className="mr-2 h-4 w-4 shrink-0" />
+                    <div className="min-w-0">
+                      <p className="truncate">
+                        <HighlightedText parts={result.highlightedName} />
+                      </p>
+                      {result.snippet && (
+                        <p className="truncate text-xs text-muted-foreground">
+                          <HighlightedText parts={result.snippet} />
+                        </p>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+            {q && !!data?.total && data.total > data.results.length && (
+              <CommandGroup>
+                <CommandItem
+                  value="search-all"
+                  onSelect={() => {
+                    close();
+                    onSearchAll(q);
+                  }}
+                >
+                  <Search className="mr-2 h-4 w-4" />
+                  Show all {data.total} results
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
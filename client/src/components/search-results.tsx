@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Folder, SearchResult, SearchResultPage } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { HighlightedText } from "@/components/highlighted-text";
+import { useDocumentDownload } from "@/hooks/use-end-to-end";
+import { folderPath } from "@/lib/folders";
+import { formatBytes } from "@/lib/utils";
+import { ChevronLeft, ChevronRight, Download, Eye, Loader2 } from "lucide-react";
+
+const PAGE_SIZE = 10;
+
+type SearchResultsProps = {
+  q: string;
+  folders: Folder[];
+  onView: (document: SearchResult) => void;
+};
+
+export function SearchResults({ q, folders, onView }: SearchResultsProps) {
+  const [page, setPage] = useState(1);
+  const download = useDocumentDownload();
+
+  useEffect(() => setPage(1), [q]);
+
+  const { data, isLoading } = useQuery<SearchResultPage>({
+    queryKey: ["/api/search", { q, page, pageSize: PAGE_SIZE }],
+  });
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+  if (!data?.results.length) {
+    return <p className="text-center text-muted-foreground">No documents match "{q}".</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {data.total} document{data.total === 1 ? "" : "s"} match "{q}"
+      </p>
+      {data.results.map((result) => {
+        const path = folderPath(folders, result.folderId);
+        return (
+          <div key={result.id} className="flex items-start justify-between gap-4 rounded-md border p-4">
+            <div className="min-w-0 space-y-1">
+              <p className="font-medium">
+                <HighlightedText parts={result.highlightedName} />
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {path.length ? path.map((folder) => folder.name).join(" / ") : "Top level"} ·{" "}
+                {formatBytes(result.size)}
+                {result.tags.length > 0 && ` · ${result.tags.map((tag) => `#${tag}`).join(" ")}`}
+              </p>
+              {result.snippet && (
+                <p className="text-sm text-muted-foreground">
+                  <HighlightedText parts={result.snippet} />
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                title="View"
+                onClick={() => onView(result)}
+              >
+                <Eye className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                title="Download"
+                onClick={() => download(result)}
+              >
+                <Download className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {totalPages}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage(page + 1)}
+            disabled={page >= totalPages}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
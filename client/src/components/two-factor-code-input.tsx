@@ -0,0 +1,39 @@
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from "@/components/ui/input-otp";
+
+export const TOTP_CODE_LENGTH = 6;
+
+type TwoFactorCodeInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  // Called once all digits are in, to submit without an extra click
+  onComplete?: (value: string) => void;
+  disabled?: boolean;
+};
+
+// Six digit entry for codes from an authenticator app
+export function TwoFactorCodeInput({ value, onChange, onComplete, disabled }: TwoFactorCodeInputProps) {
+  return (
+    <InputOTP
+      maxLength={TOTP_CODE_LENGTH}
+      pattern={REGEXP_ONLY_DIGITS}
+      value={value}
+      onChange={onChange}
+      onComplete={onComplete}
+      disabled={disabled}
+      autoFocus
+    >
+      <InputOTPGroup>
+        <InputOTPSlot index={0} />
+        <InputOTPSlot index={1} />
+        <InputOTPSlot index={2} />
+      </InputOTPGroup>
+      <InputOTPSeparator />
+      <InputOTPGroup>
+        <InputOTPSlot index={3} />
+        <InputOTPSlot index={4} />
+        <InputOTPSlot index={5} />
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
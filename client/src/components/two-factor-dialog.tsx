@@ -0,0 +1,224 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { QRCodeSVG } from "qrcode.react";
+import { RecoveryCodes, TwoFactorSetup } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2 } from "lucide-react";
+
+type TwoFactorDialogProps = {
+  open: boolean;
+  onClose: () => void;
+};
+
+// Turns two-factor login on (scan, confirm a code, save the recovery codes)
+// or, when it is on, replaces the recovery codes or turns it off
+export function TwoFactorDialog({ open, onClose }: TwoFactorDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setSetup(null);
+      setRecoveryCodes(null);
+      setCode("");
+      setPassword("");
+    }
+  }, [open]);
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/two-factor/setup");
+      return (await res.json()) as TwoFactorSetup;
+    },
+    onSuccess: setSetup,
+    onError: onError("Could not start setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const res = await apiRequest("POST", "/api/two-factor/enable", { code: value });
+      return (await res.json()) as RecoveryCodes;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      setRecoveryCodes(result.recoveryCodes);
+      setCode("");
+    },
+    onError: onError("Could not turn on two-factor authentication"),
+  });
+
+  const recoveryCodesMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const res = await apiRequest("POST", "/api/two-factor/recovery-codes", { code: value });
+      return (await res.json()) as RecoveryCodes;
+    },
+    onSuccess: (result) => {
+      setRecoveryCodes(result.recoveryCodes);
+      setCode("");
+    },
+    onError: onError("Could not replace recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/two-factor/disable", { code, password });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      toast({ title: "Two-factor authentication turned off" });
+      onClose();
+    },
+    onError: onError("Could not turn off two-factor authentication"),
+  });
+
+  const renderContent = () => {
+    if (recoveryCodes) {
+      return (
+        <>
+          <DialogDescription>
+            Save these recovery codes somewhere safe. Each one lets you log in once without
+            your authenticator app. They will not be shown again.
+          </DialogDescription>
+          <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => navigator.clipboard.writeText(recoveryCodes.join("\n"))}
+            >
+              Copy
+            </Button>
+            <Button onClick={onClose}>Done</Button>
+          </DialogFooter>
+        </>
+      );
+    }
+
+    if (user?.twoFactorEnabled) {
+      return (
+        <>
+          <DialogDescription>
+            Two-factor authentication is on. Enter a code from your authenticator app, or a
+            recovery code, to make changes.
+          </DialogDescription>
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-code">Code</Label>
+            <Input
+              id="two-factor-code"
+              value={code}
+              onChange={(event) => setCode(event.target.value)}
+              autoComplete="one-time-code"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-password">Password (to turn it off)</Label>
+            <Input
+              id="two-factor-password"
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => recoveryCodesMutation.mutate(code.trim())}
+              disabled={!code.trim() || recoveryCodesMutation.isPending}
+            >
+              New Recovery Codes
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => disableMutation.mutate()}
+              disabled={!code.trim() || !password || disableMutation.isPending}
+            >
+              Turn Off
+            </Button>
+          </DialogFooter>
+        </>
+      );
+    }
+
+    if (setup) {
+      return (
+        <>
+          <DialogDescription>
+            Scan this code with your authenticator app, then enter the 6-digit code it shows.
+          </DialogDescription>
+          <div className="flex flex-col items-center gap-4">
+            <QRCodeSVG value={setup.otpauthUrl} size={180} />
+            <p className="text-xs text-muted-foreground break-all text-center">
+              Or enter this key by hand: <span className="font-mono">{setup.secret}</span>
+            </p>
+            <TwoFactorCodeInput
+              value={code}
+              onChange={setCode}
+              onComplete={(value) => enableMutation.mutate(value)}
+              disabled={enableMutation.isPending}
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => enableMutation.mutate(code)}
+              disabled={!code || enableMutation.isPending}
+            >
+              {enableMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Turn On
+            </Button>
+          </DialogFooter>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <DialogDescription>
+          Besides your password, logging in will ask for a code from an authenticator app on
+          your phone.
+        </DialogDescription>
+        <DialogFooter>
+          <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+            {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Set Up
+          </Button>
+        </DialogFooter>
+      </>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Two-Factor Authentication</DialogTitle>
+        </DialogHeader>
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
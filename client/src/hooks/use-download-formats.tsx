@@ -0,0 +1,28 @@
+import { useQuery } from "@tanstack/react-query";
+import { ConversionCapability, DocumentMetadata, DownloadFormat } from "@shared/schema";
+
+export const downloadFormatLabels: Record<DownloadFormat, string> = {
+  original: "Original Format",
+  pdf: "PDF",
+  docx: "Word (DOCX)",
+  png: "Image (PNG)",
+};
+
+// Formats the server can produce for a document, "original" first. It cannot
+// convert end-to-end encrypted documents.
+export function useDownloadFormats() {
+  const { data: capabilities } = useQuery<ConversionCapability[]>({
+    queryKey: ["/api/conversions"],
+  });
+
+  return ({
+    contentType,
+    endToEnd,
+  }: Pick<DocumentMetadata, "contentType" | "endToEnd">): DownloadFormat[] => {
+    if (endToEnd) return ["original"];
+    const converted = (capabilities ?? [])
+      .filter((capability) => capability.from.includes(contentType))
+      .map((capability) => capability.to);
+    return ["original", ...Array.from(new Set(converted))];
+  };
+}
@@ -0,0 +1,133 @@
+import { createContext, ReactNode, useContext, useRef, useState } from "react";
+import type { DocumentMetadata } from "@shared/schema";
+import { PassphraseDialog } from "@/components/passphrase-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  createKeyCheck,
+  deriveKey,
+  fetchDecrypted,
+  getPassphraseKey,
+  saveBlob,
+  setPassphraseKey,
+  verifyKeyCheck,
+} from "@/lib/end-to-end";
+
+// Query parameters that let non-owners in, e.g. { share: token }
+export type AccessParams = Record<string, string>;
+
+type DownloadableDocument = Pick<DocumentMetadata, "id" | "name" | "contentType" | "endToEnd">;
+
+type EndToEndContextType = {
+  // Asks for the passphrase, unless it was already entered in this tab.
+  // False if the user cancels.
+  requestPassphrase: () => Promise<boolean>;
+};
+
+const EndToEndContext = createContext<EndToEndContextType | null>(null);
+
+// Owns the passphrase dialog. The first passphrase a user enters is asked for
+// twice and then checked on every device through the key check the server
+// keeps, so a typo can never encrypt a document under a key nobody can
+// reproduce.
+export function EndToEndProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const resolveRef = useRef<((unlocked: boolean) => void) | null>(null);
+
+  const finish = (unlocked: boolean) => {
+    setOpen(false);
+    resolveRef.current?.(unlocked);
+    resolveRef.current = null;
+  };
+
+  const requestPassphrase = () => {
+    if (getPassphraseKey()) return Promise.resolve(true);
+    if (!user) return Promise.resolve(false);
+    // Only the latest caller gets the answer; an earlier one gives up
+    resolveRef.current?.(false);
+    setOpen(true);
+    return new Promise<boolean>((resolve) => {
+      resolveRef.current = resolve;
+    });
+  };
+
+  const handleSubmit = async (passphrase: string) => {
+    if (!user) return "Please log in again";
+    const key = await deriveKey(passphrase, user.id);
+
+    if (user.endToEndKeyCheck) {
+      if (!(await verifyKeyCheck(key, user.endToEndKeyCheck))) return "Wrong passphrase";
+    } else {
+      await apiRequest("POST", "/api/user/end-to-end-key-check", {
+        keyCheck: await createKeyCheck(key),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    }
+
+    setPassphraseKey(key);
+    finish(true);
+    return null;
+  };
+
+  return (
+    <EndToEndContext.Provider value={{ requestPassphrase }}>
+      {children}
+      <PassphraseDialog
+        open={open}
+        isNew={!user?.endToEndKeyCheck}
+        onSubmit={handleSubmit}
+        onCancel={() => finish(false)}
+      />
+    </EndToEndContext.Provider>
+  );
+}
+
+export function useEndToEnd() {
+  const context = useContext(EndToEndContext);
+  if (!context) {
+    throw new Error("useEndToEnd must be used within an EndToEndProvider");
+  }
+  return context;
+}
+
+// Makes the owner's passphrase key available, asking for the passphrase the
+// first time. Visitors (`access` set) only have the keys from their link,
+// which decryption looks up itself.
+export function useUnlockKey(access?: AccessParams) {
+  const { user } = useAuth();
+  const { requestPassphrase } = useEndToEnd();
+
+  return async () => {
+    if (access || !user) return true;
+    return await requestPassphrase();
+  };
+}
+
+// Downloads a document's stored bytes, or a conversion of them. End-to-end
+// encrypted documents are fetched and decrypted here instead.
+export function useDocumentDownload(access?: AccessParams) {
+  const unlock = useUnlockKey(access);
+  const { toast } = useToast();
+
+  return async (document: DownloadableDocument, params: Record<string, string> = {}) => {
+    const query = new URLSearchParams({ ...access, ...params }).toString();
+    const url = `/api/documents/${document.id}/download${query ? `?${query}` : ""}`;
+    if (!document.endToEnd) {
+      window.open(url);
+      return;
+    }
+
+    try {
+      if (!(await unlock())) return;
+      saveBlob(await fetchDecrypted(url, document.id, document.contentType), document.name);
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+}
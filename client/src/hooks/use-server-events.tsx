@@ -0,0 +1,77 @@
+import { useEffect } from "react";
+import { ServerEvent } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+const RECONNECT_DELAY_MS = 5000;
+
+// Keeps a socket open to the server while logged in and refreshes the affected
+// queries whenever an event arrives.
+export function useServerEvents() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!user) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const handleEvent = (event: ServerEvent) => {
+      switch (event.type) {
+        case "access-request.created":
+          queryClient.invalidateQueries({ queryKey: ["/api/access-requests"] });
+          toast({
+            title: "New access request",
+            description: `${event.requesterName || "Someone"} asked for ${event.documentCount} document${event.documentCount === 1 ? "" : "s"}.`,
+          });
+          break;
+        case "access-request.expired":
+          queryClient.invalidateQueries({ queryKey: ["/api/access-requests"] });
+          break;
+        case "document.viewed":
+          queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+          toast({
+            title: "Document opened",
+            description: `"${event.documentName}" was opened through an approved request.`,
+          });
+          break;
+        case "pin.locked":
+          queryClient.invalidateQueries({ queryKey: ["/api/pin-lockouts"] });
+          toast({
+            title: "PIN attempts locked",
+            description: `${event.failures} wrong PINs were entered on your share links. Further attempts are blocked until ${new Date(event.lockedUntil).toLocaleTimeString()}.`,
+            variant: "destructive",
+          });
+          break;
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onmessage = (message) => {
+        try {
+          handleEvent(JSON.parse(message.data));
+        } catch (error) {
+          console.error("Invalid server event:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        if (!closed) reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [user?.id]);
+}
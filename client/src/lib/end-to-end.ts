@@ -0,0 +1,221 @@
+import {
+  END_TO_END_HEADER_BYTES,
+  END_TO_END_IV_BYTES,
+  END_TO_END_MAGIC,
+  END_TO_END_WRAPPED_KEY_BYTES,
+} from "@shared/schema";
+
+// End-to-end encrypted documents are encrypted here, before upload. Each one
+// gets its own random key, stored in the file wrapped with a key derived from
+// a passphrase only the owner knows. The server stores and serves the
+// ciphertext; it never sees the passphrase or any key. Share links can carry
+// the keys of the documents they share in their URL fragment, which browsers
+// do not send.
+//
+// File layout: END_TO_END_MAGIC, the wrapped document key (IV, then AES-GCM
+// wrapped key and tag), the contents' IV, then AES-GCM ciphertext.
+
+const PBKDF2_ITERATIONS = 600_000;
+const magic = new TextEncoder().encode(END_TO_END_MAGIC);
+const KEY_CHECK_PLAINTEXT = new TextEncoder().encode("qrvault:end-to-end:key-check");
+
+// The owner's passphrase key for this tab, once unlocked. Kept in memory only.
+let passphraseKey: CryptoKey | null = null;
+// Document keys read from a share link's URL fragment, by document ID
+const linkKeys = new Map<number, CryptoKey>();
+
+export function getPassphraseKey() {
+  return passphraseKey;
+}
+
+export function setPassphraseKey(key: CryptoKey) {
+  passphraseKey = key;
+}
+
+export function forgetKeys() {
+  passphraseKey = null;
+  linkKeys.clear();
+}
+
+// The salt only has to differ between users; the same passphrase must give
+// the same key on every device. It never leaves the browser, and only wraps
+// the documents' own keys.
+export async function deriveKey(passphrase: string, userId: number) {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"],
+  );
+  return await crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      salt: new TextEncoder().encode(`qrvault:end-to-end:${userId}`),
+      iterations: PBKDF2_ITERATIONS,
+    },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt", "wrapKey", "unwrapKey"],
+  );
+}
+
+function toBase64Url(bytes: ArrayBuffer | Uint8Array) {
+  return btoa(String.fromCharCode(...Array.from(new Uint8Array(bytes))))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+// A known value encrypted with the passphrase key, kept by the server so the
+// passphrase can be checked on every device
+export async function createKeyCheck(key: CryptoKey) {
+  const iv = crypto.getRandomValues(new Uint8Array(END_TO_END_IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, KEY_CHECK_PLAINTEXT);
+  return `${toBase64Url(iv)}.${toBase64Url(ciphertext)}`;
+}
+
+export async function verifyKeyCheck(key: CryptoKey, keyCheck: string) {
+  const [iv, ciphertext] = keyCheck.split(".");
+  try {
+    await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64Url(iv) },
+      key,
+      fromBase64Url(ciphertext),
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function hasMagic(bytes: Uint8Array) {
+  return magic.every((byte, index) => bytes[index] === byte);
+}
+
+async function unwrapDocumentKey(header: Uint8Array, key: CryptoKey, extractable = false) {
+  const wrapped = header.subarray(magic.length, magic.length + END_TO_END_WRAPPED_KEY_BYTES);
+  return await crypto.subtle.unwrapKey(
+    "raw",
+    wrapped.subarray(END_TO_END_IV_BYTES),
+    key,
+    { name: "AES-GCM", iv: wrapped.subarray(0, END_TO_END_IV_BYTES) },
+    "AES-GCM",
+    extractable,
+    ["decrypt"],
+  );
+}
+
+// "#keys=<id>.<key>~<id>.<key>" for a share link's URL, from the link's
+// documents and the URLs their bytes can be fetched from. Only the header of
+// each file is fetched.
+export async function keysFragment(documents: { id: number; url: string }[]) {
+  if (!passphraseKey) throw new Error("Unlock end-to-end encryption first");
+
+  const entries = [];
+  for (const document of documents) {
+    const res = await fetch(document.url, {
+      credentials: "include",
+      headers: { Range: `bytes=0-${END_TO_END_HEADER_BYTES - 1}` },
+    });
+    if (!res.ok) throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+    const header = new Uint8Array(await res.arrayBuffer());
+    if (!hasMagic(header)) continue;
+
+    const key = await unwrapDocumentKey(header, passphraseKey, true);
+    entries.push(`${document.id}.${toBase64Url(await crypto.subtle.exportKey("raw", key))}`);
+  }
+  return entries.length ? `#keys=${entries.join("~")}` : "";
+}
+
+// Takes in the document keys carried by the page's URL fragment, if any.
+// Returns how many there were.
+export async function unlockKeysFromFragment(hash: string) {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get("keys");
+  if (!encoded) return 0;
+
+  for (const entry of encoded.split("~")) {
+    const [id, key] = entry.split(".");
+    linkKeys.set(
+      Number(id),
+      await crypto.subtle.importKey("raw", fromBase64Url(key), "AES-GCM", false, ["decrypt"]),
+    );
+  }
+  return linkKeys.size;
+}
+
+// The file encrypted under a new key of its own, keeping its name and type
+export async function encryptFile(file: File, key: CryptoKey) {
+  const documentKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+  const wrapIv = crypto.getRandomValues(new Uint8Array(END_TO_END_IV_BYTES));
+  const wrappedKey = await crypto.subtle.wrapKey("raw", documentKey, key, {
+    name: "AES-GCM",
+    iv: wrapIv,
+  });
+
+  const iv = crypto.getRandomValues(new Uint8Array(END_TO_END_IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    documentKey,
+    await file.arrayBuffer(),
+  );
+  return new File([magic, wrapIv, wrappedKey, iv, ciphertext], file.name, { type: file.type });
+}
+
+// Decrypts a document with its key from a share link, or else with the key
+// wrapped in the file, using the owner's passphrase key
+export async function decryptBytes(data: ArrayBuffer, documentId: number) {
+  const bytes = new Uint8Array(data);
+  if (!hasMagic(bytes)) throw new Error("This file is not end-to-end encrypted");
+
+  let documentKey = linkKeys.get(documentId);
+  if (!documentKey && passphraseKey) {
+    try {
+      documentKey = await unwrapDocumentKey(bytes, passphraseKey);
+    } catch {
+      throw new Error("This document was encrypted with a different passphrase");
+    }
+  }
+  if (!documentKey) {
+    throw new Error("This document is end-to-end encrypted; its key is needed to open it");
+  }
+
+  const ivStart = END_TO_END_HEADER_BYTES - END_TO_END_IV_BYTES;
+  try {
+    return await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: bytes.subarray(ivStart, END_TO_END_HEADER_BYTES) },
+      documentKey,
+      bytes.subarray(END_TO_END_HEADER_BYTES),
+    );
+  } catch {
+    throw new Error("The key for this document does not match it");
+  }
+}
+
+// Fetches an end-to-end encrypted document and decrypts it
+export async function fetchDecrypted(url: string, documentId: number, contentType: string) {
+  const res = await fetch(url, { credentials: "include" });
+  if (!res.ok) throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+  return new Blob([await decryptBytes(await res.arrayBuffer(), documentId)], {
+    type: contentType,
+  });
+}
+
+export function saveBlob(blob: Blob, name: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
@@ -0,0 +1,28 @@
+import type { Folder } from "@shared/schema";
+
+// From the top level down to `folderId`
+export function folderPath(folders: Folder[], folderId: number | null): Folder[] {
+  const byId = new Map(folders.map((folder) => [folder.id, folder]));
+  const path: Folder[] = [];
+  for (let folder = folderId === null ? undefined : byId.get(folderId); folder; ) {
+    path.unshift(folder);
+    folder = folder.parentId === null ? undefined : byId.get(folder.parentId);
+  }
+  return path;
+}
+
+// Every folder in tree order, each with its full path as a label. Folders in
+// `excludeId`'s subtree are left out, as a folder cannot move into itself.
+export function folderOptions(folders: Folder[], excludeId?: number) {
+  const options: { id: number; label: string }[] = [];
+  const visit = (parentId: number | null, prefix: string) => {
+    for (const folder of folders.filter((candidate) => candidate.parentId === parentId)) {
+      if (folder.id === excludeId) continue;
+      const label = `${prefix}${folder.name}`;
+      options.push({ id: folder.id, label });
+      visit(folder.id, `${label} / `);
+    }
+  };
+  visit(null, "");
+  return options;
+}
@@ -0,0 +1,36 @@
+import type { DocumentFilter, FieldCondition } from "@shared/schema";
+
+// "a, b ,,c" -> ["a", "b", "c"]
+export function parseTags(input: string) {
+  return Array.from(new Set(input.split(",").map((tag) => tag.trim()).filter(Boolean)));
+}
+
+export function isFilterActive(filter: DocumentFilter) {
+  return !!filter.tags?.length || !!filter.fields?.length;
+}
+
+// The filter as /api/documents query parameters
+export function filterParams({ tags, fields }: DocumentFilter) {
+  return {
+    ...(tags?.length ? { tags: tags.join(",") } : {}),
+    ...(fields?.length ? { fields: JSON.stringify(fields) } : {}),
+  };
+}
+
+const operatorSymbols: Record<FieldCondition["op"], string> = {
+  eq: "=",
+  contains: "contains",
+  lt: "<",
+  gt: ">",
+};
+
+export function describeCondition({ key, op, value }: FieldCondition) {
+  return `${key} ${operatorSymbols[op]} ${value}`;
+}
+
+export function describeFilter({ tags, fields }: DocumentFilter) {
+  return [
+    ...(tags ?? []).map((tag) => `#${tag}`),
+    ...(fields ?? []).map(describeCondition),
+  ].join(", ");
+}
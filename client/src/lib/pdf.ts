@@ -0,0 +1,9 @@
+import { GlobalWorkerOptions } from "pdfjs-dist";
+import workerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+
+// PDFs are parsed in a worker bundled alongside the app
+GlobalWorkerOptions.workerSrc = workerUrl;
+
+export { getDocument } from "pdfjs-dist";
+export type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist";
+export type { TextItem } from "pdfjs-dist/types/src/display/api";
@@ -29,7 +29,18 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
+    // An optional second key element holds query string parameters, so
+    // ["/api/documents", { page: 2 }] is still invalidated by ["/api/documents"]
+    let url = queryKey[0] as string;
+    const params = queryKey[1] as Record<string, string | number> | undefined;
+    if (params) {
+      const search = new URLSearchParams(
+        Object.entries(params).map(([key, value]) => [key, String(value)]),
+      );
+      url += `?${search}`;
+    }
+
+    const res = await fetch(url, {
       credentials: "include",
     });
 
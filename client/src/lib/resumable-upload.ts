@@ -0,0 +1,149 @@
+import type { Document, UploadProgress } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { Sha256 } from "@/lib/sha256";
+
+const MAX_RETRIES = 5;
+const RETRY_DELAY_MS = 1000;
+// How much of the file is in memory at a time while hashing it
+const HASH_SLICE_BYTES = 4 * 1024 * 1024;
+
+// Thrown for responses the server meant, as opposed to a dropped connection
+class UploadRejectedError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+async function sha256Hex(file: File) {
+  const hash = new Sha256();
+  for (let start = 0; start < file.size; start += HASH_SLICE_BYTES) {
+    hash.update(new Uint8Array(await file.slice(start, start + HASH_SLICE_BYTES).arrayBuffer()));
+  }
+  return hash.hex();
+}
+
+async function readJson<T>(res: Response): Promise<T> {
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new UploadRejectedError(res.status, body.message || res.statusText);
+  }
+  return body;
+}
+
+async function getUpload(id: number) {
+  return await readJson<UploadProgress>(
+    await fetch(`/api/uploads/${id}`, { credentials: "include" }),
+  );
+}
+
+// XHR rather than fetch, for progress events while the chunk is in flight
+function putChunk(
+  upload: UploadProgress,
+  chunk: Blob,
+  onProgress: (sentInChunk: number) => void,
+) {
+  return new Promise<UploadProgress>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", `/api/uploads/${upload.id}`);
+    xhr.withCredentials = true;
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+    xhr.setRequestHeader("Upload-Offset", String(upload.receivedBytes));
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onerror = () => reject(new Error("Connection lost"));
+    xhr.onload = () => {
+      let body: unknown = {};
+      try {
+        body = JSON.parse(xhr.responseText);
+      } catch {}
+      if (xhr.status >= 200 && xhr.status < 300) resolve(body as UploadProgress);
+      else {
+        const message = (body as { message?: string } | null)?.message;
+        reject(new UploadRejectedError(xhr.status, message || xhr.statusText));
+      }
+    };
+    xhr.send(chunk);
+  });
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Uploads `file` in chunks as document `name` (into `folderId`, or the top
+// level). If an unfinished upload of the same file under the same name exists,
+// e.g. from before a page reload, it carries on from where that one stopped.
+// Dropped connections are retried. `endToEnd` marks a file already encrypted
+// in the browser. Those never resume an earlier upload: each encryption uses a
+// new key and IV, so the same file never gives the same bytes or checksum
+// twice. Retries within this call still carry on where they stopped.
+export async function uploadResumable(
+  file: File,
+  name: string,
+  folderId: number | null,
+  onProgress: (sentBytes: number, status: "preparing" | "uploading" | "finishing") => void,
+  endToEnd = false,
+): Promise<Document> {
+  onProgress(0, "preparing");
+  const checksum = await sha256Hex(file);
+
+  const unfinished = endToEnd
+    ? []
+    : await readJson<UploadProgress[]>(await fetch("/api/uploads", { credentials: "include" }));
+  let upload =
+    unfinished.find(
+      (candidate) =>
+        candidate.name === name && candidate.size === file.size && candidate.checksum === checksum,
+    ) ??
+    (await readJson<UploadProgress>(
+      await fetch("/api/uploads", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          contentType: file.type || "application/octet-stream",
+          size: file.size,
+          checksum,
+          folderId,
+          endToEnd,
+        }),
+        credentials: "include",
+      }),
+    ));
+
+  let retries = 0;
+  while (upload.receivedBytes < upload.size) {
+    onProgress(upload.receivedBytes, "uploading");
+    const start = upload.receivedBytes;
+    const chunk = file.slice(start, start + upload.chunkSize);
+
+    try {
+      upload = await putChunk(upload, chunk, (sent) => onProgress(start + sent, "uploading"));
+      retries = 0;
+    } catch (error) {
+      // The connection dropped, or the offset moved under us (another tab, or
+      // a chunk that landed after all): back off, then resume from wherever
+      // the server says the upload is
+      if (error instanceof UploadRejectedError && error.status !== 409) throw error;
+      if (retries++ >= MAX_RETRIES) throw error;
+      await wait(RETRY_DELAY_MS * 2 ** (retries - 1));
+      const current = upload;
+      upload = await getUpload(current.id).catch((lookupError) => {
+        if (lookupError instanceof UploadRejectedError) throw lookupError;
+        return current; // Still offline; the next attempt will find out
+      });
+    }
+  }
+
+  onProgress(upload.size, "finishing");
+  return await readJson<Document>(
+    await fetch(`/api/uploads/${upload.id}/complete`, {
+      method: "POST",
+      credentials: "include",
+    }),
+  );
+}
+
+export async function cancelUpload(id: number) {
+  await apiRequest("DELETE", `/api/uploads/${id}`);
+}
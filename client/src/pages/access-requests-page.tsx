@@ -0,0 +1,410 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  AccessRequestEvent,
+  AccessRequestStatus,
+  AccessRequestWithDocuments,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Ban, Check, History, ListChecks, Loader2, X } from "lucide-react";
+
+type Decision = {
+  id: number;
+  status: Exclude<AccessRequestStatus, "pending" | "expired">;
+  documentIds?: number[];
+  reason?: string;
+};
+
+const statusBadgeVariant: Record<AccessRequestStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  approved: "default",
+  denied: "destructive",
+  expired: "outline",
+  revoked: "destructive",
+};
+
+export default function AccessRequestsPage() {
+  const { toast } = useToast();
+  const [filter, setFilter] = useState<AccessRequestStatus>("pending");
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [partialRequest, setPartialRequest] = useState<AccessRequestWithDocuments | null>(null);
+  const [partialDocs, setPartialDocs] = useState<number[]>([]);
+  const [historyRequest, setHistoryRequest] = useState<AccessRequestWithDocuments | null>(null);
+
+  const { data: requests, isLoading } = useQuery<AccessRequestWithDocuments[]>({
+    queryKey: ["/api/access-requests"],
+  });
+
+  const { data: history, isLoading: isHistoryLoading } = useQuery<AccessRequestEvent[]>({
+    queryKey: [`/api/access-requests/${historyRequest?.id}/history`],
+    enabled: !!historyRequest,
+  });
+
+  const visibleRequests = useMemo(
+    () =>
+      (requests ?? [])
+        .filter((request) => request.status === filter)
+        .sort((a, b) =>
+          b.requesterInfo.timestamp.localeCompare(a.requesterInfo.timestamp)
+        ),
+    [requests, filter]
+  );
+
+  const decideMutation = useMutation({
+    mutationFn: async (decisions: Decision[]) => {
+      await Promise.all(
+        decisions.map(({ id, ...body }) =>
+          apiRequest("PATCH", `/api/access-requests/${id}`, body)
+        )
+      );
+      return decisions;
+    },
+    onSuccess: (decisions) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/access-requests"] });
+      decisions.forEach(({ id }) =>
+        queryClient.invalidateQueries({ queryKey: [`/api/access-requests/${id}/history`] })
+      );
+      setSelectedIds([]);
+      setPartialRequest(null);
+      toast({
+        title:
+          decisions.length === 1
+            ? `Request ${decisions[0].status}`
+            : `${decisions.length} requests updated`,
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/access-requests"] });
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((requestId) => requestId !== id) : [...prev, id]
+    );
+  };
+
+  const decideSelected = (status: Decision["status"]) => {
+    decideMutation.mutate(selectedIds.map((id) => ({ id, status })));
+  };
+
+  const openPartialApproval = (request: AccessRequestWithDocuments) => {
+    setPartialRequest(request);
+    setPartialDocs(request.requestedDocuments);
+  };
+
+  const revokeRequest = (request: AccessRequestWithDocuments) => {
+    const reason = prompt("Reason for revoking access (optional):");
+    if (reason === null) return;
+    decideMutation.mutate([{ id: request.id, status: "revoked", reason: reason || undefined }]);
+  };
+
+  const allSelected =
+    visibleRequests.length > 0 && selectedIds.length === visibleRequests.length;
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-6xl mx-auto">
+        <h1 className="text-3xl font-bold mb-8">Access Requests</h1>
+
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <Tabs
+            value={filter}
+            onValueChange={(value) => {
+              setFilter(value as AccessRequestStatus);
+              setSelectedIds([]);
+            }}
+          >
+            <TabsList>
+              <TabsTrigger value="pending">Pending</TabsTrigger>
+              <TabsTrigger value="approved">Approved</TabsTrigger>
+              <TabsTrigger value="denied">Denied</TabsTrigger>
+              <TabsTrigger value="expired">Expired</TabsTrigger>
+              <TabsTrigger value="revoked">Revoked</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {filter === "pending" && (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => decideSelected("approved")}
+                disabled={!selectedIds.length || decideMutation.isPending}
+              >
+                <Check className="mr-2 h-4 w-4" />
+                Approve Selected ({selectedIds.length})
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => decideSelected("denied")}
+                disabled={!selectedIds.length || decideMutation.isPending}
+              >
+                <X className="mr-2 h-4 w-4" />
+                Deny Selected
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !visibleRequests.length ? (
+          <p className="text-center text-muted-foreground py-12">
+            No {filter} requests.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {filter === "pending" && (
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={() =>
+                        setSelectedIds(
+                          allSelected ? [] : visibleRequests.map((request) => request.id)
+                        )
+                      }
+                      aria-label="Select all requests"
+                    />
+                  </TableHead>
+                )}
+                <TableHead>Requested</TableHead>
+                <TableHead>Requester</TableHead>
+                <TableHead>Documents</TableHead>
+                <TableHead>Device</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRequests.map((request) => (
+                <TableRow key={request.id}>
+                  {filter === "pending" && (
+                    <TableCell>
+                      <Checkbox
+                        checked={selectedIds.includes(request.id)}
+                        onCheckedChange={() => toggleSelected(request.id)}
+                        aria-label={`Select request ${request.id}`}
+                      />
+                    </TableCell>
+                  )}
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(request.requesterInfo.timestamp).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">
+                      {request.requesterInfo.name || "Anonymous"}
+                    </div>
+                    {request.requesterInfo.email && (
+                      <div className="text-sm text-muted-foreground">
+                        {request.requesterInfo.email}
+                      </div>
+                    )}
+                    {request.requesterInfo.message && (
+                      <p className="text-sm text-muted-foreground italic max-w-[240px]">
+                        “{request.requesterInfo.message}”
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {request.documents.map(({ id, name }) => (
+                        <Badge
+                          key={id}
+                          variant={
+                            request.approvedDocuments && !request.approvedDocuments.includes(id)
+                              ? "outline"
+                              : "secondary"
+                          }
+                        >
+                          {name}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell
+                    className="max-w-[240px] truncate"
+                    title={request.requesterInfo.deviceInfo}
+                  >
+                    {request.requesterInfo.deviceInfo}
+                  </TableCell>
+                  <TableCell>{request.requesterInfo.location || "Unknown"}</TableCell>
+                  <TableCell>
+                    {request.status === "pending" ? (
+                      <div className="flex gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Approve"
+                          onClick={() =>
+                            decideMutation.mutate([{ id: request.id, status: "approved" }])
+                          }
+                          disabled={decideMutation.isPending}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Approve some documents"
+                          onClick={() => openPartialApproval(request)}
+                          disabled={decideMutation.isPending}
+                        >
+                          <ListChecks className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Deny"
+                          onClick={() =>
+                            decideMutation.mutate([{ id: request.id, status: "denied" }])
+                          }
+                          disabled={decideMutation.isPending}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <Badge variant={statusBadgeVariant[request.status]}>
+                          {request.status}
+                        </Badge>
+                        {request.status === "approved" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Revoke access"
+                            onClick={() => revokeRequest(request)}
+                            disabled={decideMutation.isPending}
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="History"
+                          onClick={() => setHistoryRequest(request)}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <Dialog
+          open={!!partialRequest}
+          onOpenChange={(open) => !open && setPartialRequest(null)}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Approve selected documents</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-3">
+              {partialRequest?.documents.map(({ id, name }) => (
+                <div key={id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`partial-${id}`}
+                    checked={partialDocs.includes(id)}
+                    onCheckedChange={() =>
+                      setPartialDocs((prev) =>
+                        prev.includes(id) ? prev.filter((docId) => docId !== id) : [...prev, id]
+                      )
+                    }
+                  />
+                  <label htmlFor={`partial-${id}`} className="text-sm font-medium leading-none">
+                    {name}
+                  </label>
+                </div>
+              ))}
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setPartialRequest(null)}>
+                Cancel
+              </Button>
+              <Button
+                onClick={() =>
+                  partialRequest &&
+                  decideMutation.mutate([
+                    { id: partialRequest.id, status: "approved", documentIds: partialDocs },
+                  ])
+                }
+                disabled={!partialDocs.length || decideMutation.isPending}
+              >
+                {decideMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Approve {partialDocs.length} document{partialDocs.length === 1 ? "" : "s"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog
+          open={!!historyRequest}
+          onOpenChange={(open) => !open && setHistoryRequest(null)}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Request history</DialogTitle>
+            </DialogHeader>
+            {isHistoryLoading ? (
+              <div className="flex justify-center">
+                <Loader2 className="h-6 w-6 animate-spin" />
+              </div>
+            ) : (
+              <ol className="space-y-3">
+                {history?.map((event) => (
+                  <li key={event.id} className="text-sm">
+                    <div className="font-medium">
+                      {event.fromStatus} → {event.toStatus}
+                      <span className="text-muted-foreground font-normal">
+                        {" "}by {event.actorType}
+                      </span>
+                    </div>
+                    <div className="text-muted-foreground">
+                      {new Date(event.createdAt).toLocaleString()}
+                      {event.reason && ` — ${event.reason}`}
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Block } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Unlock } from "lucide-react";
+
+const kindLabels: Record<Block["kind"], string> = {
+  "rate-limit": "Rate limit",
+  pin: "PIN attempts",
+};
+
+export default function AdminBlocksPage() {
+  const { toast } = useToast();
+
+  const { data: blocks, isLoading } = useQuery<Block[]>({
+    queryKey: ["/api/admin/blocks"],
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async ({ kind, key }: Pick<Block, "kind" | "key">) => {
+      await apiRequest("DELETE", `/api/admin/blocks/${kind}/${encodeURIComponent(key)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/blocks"] });
+      toast({ title: "Block cleared" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not clear block", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-6xl mx-auto">
+        <h1 className="text-3xl font-bold mb-8">Blocked Clients</h1>
+
+        {isLoading ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !blocks?.length ? (
+          <p className="text-center text-muted-foreground">Nobody is blocked right now.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Kind</TableHead>
+                <TableHead>Key</TableHead>
+                <TableHead>Count</TableHead>
+                <TableHead>Blocked until</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {blocks.map((block) => (
+                <TableRow key={`${block.kind}:${block.key}`}>
+                  <TableCell>{kindLabels[block.kind]}</TableCell>
+                  <TableCell className="font-mono">{block.key}</TableCell>
+                  <TableCell>{block.count}</TableCell>
+                  <TableCell>{new Date(block.blockedUntil).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Clear block"
+                      onClick={() => clearMutation.mutate(block)}
+                      disabled={clearMutation.isPending}
+                    >
+                      <Unlock className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -6,6 +7,7 @@ import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/use-auth";
+import { TwoFactorCodeInput } from "@/components/two-factor-code-input";
 import { insertUserSchema } from "@shared/schema";
 import { Loader2 } from "lucide-react";
 import { useLocation } from "wouter";
@@ -71,6 +73,10 @@ function LoginForm() {
     },
   });
 
+  if (loginMutation.data && "twoFactorRequired" in loginMutation.data) {
+    return <TwoFactorForm />;
+  }
+
   return (
     <Form {...form}>
       <form
@@ -118,6 +124,73 @@ function LoginForm() {
   );
 }
 
+// Second login step, once the password was accepted
+function TwoFactorForm() {
+  const { loginMutation, twoFactorMutation } = useAuth();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const submit = (value: string) => {
+    if (value.trim()) twoFactorMutation.mutate(value.trim());
+  };
+
+  return (
+    <form
+      onSubmit={(event) => {
+        event.preventDefault();
+        submit(code);
+      }}
+      className="space-y-4 mt-4"
+    >
+      <p className="text-sm text-muted-foreground">
+        {useRecoveryCode
+          ? "Enter one of the recovery codes you saved when turning on two-factor authentication."
+          : "Enter the 6-digit code from your authenticator app."}
+      </p>
+
+      {useRecoveryCode ? (
+        <Input
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          placeholder="xxxxx-xxxxx"
+          autoFocus
+        />
+      ) : (
+        <div className="flex justify-center">
+          <TwoFactorCodeInput
+            value={code}
+            onChange={setCode}
+            onComplete={submit}
+            disabled={twoFactorMutation.isPending}
+          />
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={!code || twoFactorMutation.isPending}>
+        {twoFactorMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Verify
+      </Button>
+
+      <div className="flex justify-between">
+        <Button
+          type="button"
+          variant="link"
+          className="px-0"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode("");
+          }}
+        >
+          {useRecoveryCode ? "Use authenticator code" : "Use a recovery code"}
+        </Button>
+        <Button type="button" variant="link" className="px-0" onClick={() => loginMutation.reset()}>
+          Back
+        </Button>
+      </div>
+    </form>
+  );
+}
+
 function RegisterForm() {
   const { registerMutation } = useAuth();
   const form = useForm({
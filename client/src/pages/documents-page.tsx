@@ -1,11 +1,26 @@
 import { QRCodeSVG } from "qrcode.react";
-import { useState } from "react";
+import { Fragment, useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { useAuth } from "@/hooks/use-auth";
-import { Document } from "@shared/schema";
+import { Link, useLocation, useSearch } from "wouter";
+import {
+  CreateShareLink,
+  DocumentFilter,
+  DocumentMetadata,
+  Folder,
+  DocumentPage,
+  ListDocumentsQuery,
+  ShareLink,
+  UploadProgress,
+} from "@shared/schema";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import {
   Table,
   TableBody,
@@ -20,62 +35,261 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { DocumentVersionsDialog } from "@/components/document-versions-dialog";
+import { DocumentLabelsDialog } from "@/components/document-labels-dialog";
+import { DocumentFilterBar } from "@/components/document-filter-bar";
+import { SearchPalette } from "@/components/search-palette";
+import { DocumentGallery } from "@/components/document-gallery";
+import { DocumentThumbnail } from "@/components/document-thumbnail";
+import { DocumentViewerDialog } from "@/components/document-viewer";
+import { SearchResults } from "@/components/search-results";
+import { MoveToFolderDialog } from "@/components/move-to-folder-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useDocumentDownload, useUnlockKey } from "@/hooks/use-end-to-end";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Loader2, Pencil, Trash2, Download, QrCode } from "lucide-react";
+import { encryptFile, getPassphraseKey, keysFragment } from "@/lib/end-to-end";
+import { formatBytes } from "@/lib/utils";
+import { cancelUpload, uploadResumable } from "@/lib/resumable-upload";
+import { folderPath } from "@/lib/folders";
+import { describeFilter, filterParams, isFilterActive } from "@/lib/labels";
+import {
+  Loader2,
+  Pencil,
+  Trash2,
+  Download,
+  QrCode,
+  ArrowUp,
+  ArrowDown,
+  ChevronLeft,
+  ChevronRight,
+  History,
+  X,
+  Folder as FolderIcon,
+  FolderInput,
+  FolderPlus,
+  Tags,
+  Search,
+  List,
+  LayoutGrid,
+  Eye,
+  KeyRound,
+  Lock,
+} from "lucide-react";
+
+const PAGE_SIZE = 25;
+
+type SortField = ListDocumentsQuery["sort"];
+type ListingView = "table" | "grid";
+
+// What the move dialog is moving
+type MoveTarget = { documentIds: number[] } | { folder: Folder };
+
+type UploadItem = {
+  name: string;
+  size: number;
+  sentBytes: number;
+  status: "queued" | "preparing" | "uploading" | "finishing" | "done" | "failed";
+  error?: string;
+};
+
+function uploadStatusLabel(upload: UploadItem) {
+  switch (upload.status) {
+    case "queued":
+      return "Waiting";
+    case "preparing":
+      return "Preparing…";
+    case "uploading":
+      return `${formatBytes(upload.sentBytes)} of ${formatBytes(upload.size)}`;
+    case "finishing":
+      return "Verifying…";
+    case "done":
+      return "Uploaded";
+    case "failed":
+      return "Failed";
+  }
+}
+
+// The file picker filter for the server's allowed types. Browsers don't map
+// .md to text/markdown, so markdown is also offered by extension.
+function acceptedFiles(allowedTypes: string[]) {
+  return [...allowedTypes, ...(allowedTypes.includes("text/markdown") ? [".md"] : [])].join(",");
+}
+
+const TYPE_NAMES: Record<string, string> = {
+  "application/pdf": "PDF",
+  "application/msword": "DOC",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "DOCX",
+  "text/plain": "TXT",
+  "text/markdown": "Markdown",
+  "image/jpeg": "JPEG",
+};
+
+// "PDF, DOCX, PNG" for the server's allowed types; types without a short name
+// show their subtype, e.g. text/csv as CSV
+function describeTypes(allowedTypes: string[]) {
+  return allowedTypes
+    .map((type) => TYPE_NAMES[type] ?? type.split("/").pop()!.toUpperCase())
+    .join(", ");
+}
 
 export default function DocumentsPage() {
-  const { user } = useAuth();
   const { toast } = useToast();
-  const [showQRDialog, setShowQRDialog] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const download = useDocumentDownload();
+  const unlock = useUnlockKey();
+  const [shareLink, setShareLink] = useState<ShareLink | null>(null);
+  // "#keys=..." when the owner chose to put the keys of the link's end-to-end
+  // encrypted documents in the QR code, and how many keys that is
+  const [linkKeys, setLinkKeys] = useState<{ fragment: string; count: number } | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [customName, setCustomName] = useState("");
   const [isUploading, setIsUploading] = useState(false);
+  const [endToEnd, setEndToEnd] = useState(false);
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [versionsDocument, setVersionsDocument] = useState<DocumentMetadata | null>(null);
+  const [moveTarget, setMoveTarget] = useState<MoveTarget | null>(null);
+  const [view, setView] = useState<ListingView>("table");
+  const [viewingDocument, setViewingDocument] = useState<DocumentMetadata | null>(null);
+  const [labelsDocument, setLabelsDocument] = useState<DocumentMetadata | null>(null);
+  // Submitted search text; while set, search results replace the listing
+  const [searchText, setSearchText] = useState("");
+  const [search, setSearch] = useState("");
 
-  const { data: documents, isLoading } = useQuery<Document[]>({
-    queryKey: ["/api/documents"],
+  // The open folder lives in the URL, so back/forward and reloads keep it
+  const [, setLocation] = useLocation();
+  const folderId = Number(new URLSearchParams(useSearch()).get("folder")) || null;
+
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<SortField>("createdAt");
+  const [order, setOrder] = useState<ListDocumentsQuery["order"]>("desc");
+
+  // While filtering by labels the listing spans every folder
+  const [filter, setFilter] = useState<DocumentFilter>({});
+  const filtering = isFilterActive(filter);
+
+  const { data, isLoading } = useQuery<DocumentPage>({
+    queryKey: [
+      "/api/documents",
+      {
+        page,
+        pageSize: PAGE_SIZE,
+        sort,
+        order,
+        ...(filtering ? filterParams(filter) : folderId ? { folderId } : {}),
+      },
+    ],
+  });
+  const { data: folders = [] } = useQuery<Folder[]>({
+    queryKey: ["/api/folders"],
+  });
+  const breadcrumbs = folderPath(folders, folderId);
+  const subfolders = folders.filter((folder) => folder.parentId === folderId);
+  const { data: uploadLimits } = useQuery<{ maxFileSize: number; allowedTypes: string[] }>({
+    queryKey: ["/api/upload-limits"],
   });
+  const { data: unfinishedUploads } = useQuery<UploadProgress[]>({
+    queryKey: ["/api/uploads"],
+  });
+  const documents = data?.documents;
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
 
-  const uploadMutation = useMutation({
-    mutationFn: async (formData: FormData) => {
-      console.log('Starting upload mutation');
-      const res = await fetch('/api/documents', {
-        method: 'POST',
-        body: formData,
-        credentials: 'include'
-      });
+  // Deleting the last document of the last page would otherwise strand the user
+  useEffect(() => {
+    if (page > totalPages) setPage(totalPages);
+  }, [page, totalPages]);
 
-      if (!res.ok) {
-        const error = await res.json();
-        throw new Error(error.message || "Failed to upload document");
-      }
-      return res.json();
+  const openFolder = (id: number | null) => {
+    setLocation(id === null ? "/documents" : `/documents?folder=${id}`);
+    setPage(1);
+    setSelectedIds([]);
+  };
+
+  const applyFilter = (next: DocumentFilter) => {
+    setFilter(next);
+    setPage(1);
+    setSelectedIds([]);
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createFolderMutation = useMutation({
+    mutationFn: async (name: string) => {
+      await apiRequest("POST", "/api/folders", { name, parentId: folderId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      toast({ title: "Folder created" });
+    },
+    onError: onError("Could not create folder"),
+  });
+
+  const renameFolderMutation = useMutation({
+    mutationFn: async ({ id, name }: { id: number; name: string }) => {
+      await apiRequest("PATCH", `/api/folders/${id}`, { name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      toast({ title: "Folder renamed" });
+    },
+    onError: onError("Rename failed"),
+  });
+
+  const deleteFolderMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/folders/${id}`);
     },
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
       queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
-      toast({ title: "Document uploaded successfully" });
-      setSelectedFile(null);
-      setCustomName("");
-      setIsUploading(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({ title: "Folder deleted", description: "Its documents were moved to the trash." });
     },
-    onError: (error: Error) => {
-      console.error('Upload mutation error:', error);
-      toast({ 
-        title: "Upload failed", 
-        description: error.message,
-        variant: "destructive" 
-      });
-      setIsUploading(false);
+    onError: onError("Delete failed"),
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ target, destination }: { target: MoveTarget; destination: number | null }) => {
+      if ("folder" in target) {
+        await apiRequest("PATCH", `/api/folders/${target.folder.id}`, { parentId: destination });
+      } else {
+        await Promise.all(
+          target.documentIds.map((id) =>
+            apiRequest("PATCH", `/api/documents/${id}`, { folderId: destination })
+          )
+        );
+      }
+    },
+    onSuccess: (_, { target }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      if (!("folder" in target)) {
+        setSelectedIds((prev) => prev.filter((id) => !target.documentIds.includes(id)));
+      }
+      setMoveTarget(null);
+      toast({ title: "Moved successfully" });
     },
+    onError: onError("Move failed"),
   });
 
   const deleteMutation = useMutation({
     mutationFn: async (id: number) => {
       await apiRequest("DELETE", `/api/documents/${id}`);
     },
-    onSuccess: () => {
+    onSuccess: (_, id) => {
       queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
-      toast({ title: "Document deleted successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      setSelectedIds((prev) => prev.filter((docId) => docId !== id));
+      toast({ title: "Document moved to trash" });
     },
     onError: (error: Error) => {
       toast({ 
@@ -107,49 +321,205 @@ export default function DocumentsPage() {
     },
   });
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      console.log('File selected:', {
-        name: file.name,
-        type: file.type,
-        size: file.size
+  const shareMutation = useMutation({
+    // Without documentIds the link covers every document the user owns
+    mutationFn: async (link: CreateShareLink) => {
+      const res = await apiRequest("POST", "/api/share-links", link);
+      return (await res.json()) as ShareLink;
+    },
+    onSuccess: (link) => {
+      setShareLink(link);
+      setLinkKeys(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not create share link",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
+
+  // Puts the keys of the end-to-end encrypted documents the link shares now,
+  // at the versions it serves, into its URL fragment
+  const includeKeys = async (link: ShareLink) => {
+    try {
+      if (!(await unlock())) return;
+      const res = await apiRequest("GET", `/api/share-links/${link.id}/end-to-end-documents`);
+      const encrypted = (await res.json()) as DocumentMetadata[];
+      if (encrypted.length === 0) {
+        toast({ title: "This link shares no end-to-end encrypted documents" });
+        return;
+      }
+      const fragment = await keysFragment(
+        encrypted.map((doc) => ({
+          id: doc.id,
+          url: `/api/documents/${doc.id}/download?version=${doc.version}`,
+        })),
+      );
+      setLinkKeys({ fragment, count: encrypted.length });
+    } catch (error) {
+      toast({
+        title: "Could not include keys",
+        description: (error as Error).message,
+        variant: "destructive",
       });
-      setSelectedFile(file);
-      setCustomName(file.name);
     }
   };
 
-  const handleUpload = async () => {
-    if (!selectedFile || !customName || isUploading) return;
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/share-links/${id}/revoke`);
+    },
+    onSuccess: () => {
+      setShareLink(null);
+      toast({ title: "Share link revoked" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Revoke failed",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+  });
 
-    try {
-      setIsUploading(true);
-      const formData = new FormData();
+  const toggleSelected = (id: number) => {
+    setSelectedIds((prev) =>
+      prev.includes(id) ? prev.filter((docId) => docId !== id) : [...prev, id]
+    );
+  };
 
-      console.log('Uploading file:', {
-        name: selectedFile.name,
-        type: selectedFile.type,
-        size: selectedFile.size
+  const pageIds = documents?.map((doc) => doc.id) ?? [];
+  const allSelected = !!pageIds.length && pageIds.every((id) => selectedIds.includes(id));
+
+  const toggleAllOnPage = () => {
+    setSelectedIds((prev) =>
+      allSelected
+        ? prev.filter((id) => !pageIds.includes(id))
+        : Array.from(new Set([...prev, ...pageIds]))
+    );
+  };
+
+  const changeSort = (field: SortField) => {
+    if (field === sort) {
+      setOrder(order === "asc" ? "desc" : "asc");
+    } else {
+      setSort(field);
+      setOrder(field === "name" ? "asc" : "desc");
+    }
+    setPage(1);
+  };
+
+  const sortableHead = (field: SortField, label: string) => (
+    <TableHead>
+      <button
+        type="button"
+        className="inline-flex items-center gap-1"
+        onClick={() => changeSort(field)}
+      >
+        {label}
+        {sort === field &&
+          (order === "asc" ? (
+            <ArrowUp className="h-3 w-3" />
+          ) : (
+            <ArrowDown className="h-3 w-3" />
+          ))}
+      </button>
+    </TableHead>
+  );
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    const tooLarge = uploadLimits
+      ? files.filter((file) => file.size > uploadLimits.maxFileSize)
+      : [];
+    if (uploadLimits && tooLarge.length > 0) {
+      toast({
+        title: "File too large",
+        description: `${tooLarge.map((file) => file.name).join(", ")}: files can be at most ${formatBytes(uploadLimits.maxFileSize)}.`,
+        variant: "destructive",
       });
+      e.target.value = "";
+      return;
+    }
+    setSelectedFiles(files);
+    setCustomName(files.length === 1 ? files[0].name : "");
+    setUploads([]);
+  };
+
+  const updateUpload = (index: number, changes: Partial<UploadItem>) => {
+    setUploads((items) =>
+      items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    );
+  };
+
+  // Files go one after another; each one resumes an unfinished upload of
+  // itself if there is one, except end-to-end encrypted files, which start over
+  const handleUpload = async () => {
+    if (selectedFiles.length === 0 || isUploading) return;
+    if (selectedFiles.length === 1 && !customName) return;
 
-      // Important: The name 'file' must match the multer field name
-      formData.append('file', selectedFile);
-      formData.append('name', customName);
+    if (endToEnd && !(await unlock())) return;
+    const key = endToEnd ? getPassphraseKey() : null;
 
-      // Log the FormData contents
-      for (const pair of formData.entries()) {
-        console.log('FormData entry:', pair[0], pair[1]);
+    const names = selectedFiles.length === 1 ? [customName] : selectedFiles.map((file) => file.name);
+    setUploads(
+      selectedFiles.map((file, index) => ({
+        name: names[index],
+        size: file.size,
+        sentBytes: 0,
+        status: "queued",
+      })),
+    );
+    setIsUploading(true);
+
+    let failed = 0;
+    for (let index = 0; index < selectedFiles.length; index++) {
+      try {
+        updateUpload(index, { status: "preparing" });
+        const file = key ? await encryptFile(selectedFiles[index], key) : selectedFiles[index];
+        updateUpload(index, { size: file.size });
+        await uploadResumable(
+          file,
+          names[index],
+          folderId,
+          (sentBytes, status) => updateUpload(index, { sentBytes, status }),
+          !!key,
+        );
+        updateUpload(index, { sentBytes: file.size, status: "done" });
+      } catch (error) {
+        console.error("Upload error:", error);
+        failed++;
+        updateUpload(index, { status: "failed", error: (error as Error).message });
       }
+    }
+
+    setIsUploading(false);
+    queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/uploads"] });
+    if (failed === 0) {
+      toast({ title: selectedFiles.length === 1 ? "Document uploaded successfully" : "Documents uploaded successfully" });
+      setSelectedFiles([]);
+      setCustomName("");
+    } else {
+      toast({
+        title: "Upload failed",
+        description: `${failed} of ${selectedFiles.length} file${selectedFiles.length === 1 ? "" : "s"} could not be uploaded. Upload again to ${key ? "start over" : "resume"}.`,
+        variant: "destructive",
+      });
+    }
+  };
 
-      uploadMutation.mutate(formData);
+  const handleCancelUpload = async (id: number) => {
+    try {
+      await cancelUpload(id);
+      queryClient.invalidateQueries({ queryKey: ["/api/uploads"] });
     } catch (error) {
-      console.error('Upload error:', error);
-      setIsUploading(false);
-      toast({ 
-        title: "Upload failed", 
-        description: "Failed to prepare file for upload",
-        variant: "destructive" 
+      toast({
+        title: "Failed to cancel upload",
+        description: (error as Error).message,
+        variant: "destructive",
       });
     }
   };
@@ -157,7 +527,38 @@ export default function DocumentsPage() {
   return (
     <div className="min-h-screen bg-background p-8">
       <div className="max-w-6xl mx-auto">
-        <h1 className="text-3xl font-bold mb-8">Document Management</h1>
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold">Document Management</h1>
+          <div className="flex gap-2">
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                setSearch(searchText.trim());
+              }}
+            >
+              <Input
+                className="w-72"
+                type="search"
+                placeholder="Search documents… (Ctrl+K)"
+                value={searchText}
+                onChange={(e) => {
+                  setSearchText(e.target.value);
+                  if (!e.target.value) setSearch("");
+                }}
+              />
+              <Button type="submit" variant="outline" size="icon" title="Search">
+                <Search className="h-4 w-4" />
+              </Button>
+            </form>
+            <Link href="/trash">
+              <Button variant="outline">
+                <Trash2 className="mr-2 h-4 w-4" />
+                Trash
+              </Button>
+            </Link>
+          </div>
+        </div>
 
         <Card className="mb-8">
           <CardContent className="p-6">
@@ -165,114 +566,579 @@ export default function DocumentsPage() {
               <div>
                 <Input
                   type="file"
+                  multiple
                   onChange={handleFileSelect}
-                  accept=".pdf,.doc,.docx,.txt"
+                  accept={uploadLimits && acceptedFiles(uploadLimits.allowedTypes)}
                   disabled={isUploading}
                   className="cursor-pointer"
                 />
                 <p className="text-sm text-muted-foreground mt-1">
-                  Supported formats: PDF, DOC, DOCX, TXT (Max 10MB)
+                  {uploadLimits && (
+                    <>
+                      Supported formats: {describeTypes(uploadLimits.allowedTypes)} (Max{" "}
+                      {formatBytes(uploadLimits.maxFileSize)})
+                      <br />
+                    </>
+                  )}
+                  Uploading under an existing name adds a new version of that document.
                 </p>
               </div>
-              <Input
-                placeholder="Custom document name"
-                value={customName}
-                onChange={(e) => setCustomName(e.target.value)}
-                disabled={isUploading}
-              />
+              {selectedFiles.length <= 1 && (
+                <Input
+                  placeholder="Custom document name"
+                  value={customName}
+                  onChange={(e) => setCustomName(e.target.value)}
+                  disabled={isUploading}
+                />
+              )}
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="end-to-end"
+                  checked={endToEnd}
+                  onCheckedChange={setEndToEnd}
+                  disabled={isUploading}
+                />
+                <Label htmlFor="end-to-end" className="font-normal">
+                  Encrypt in this browser with my passphrase. The server cannot read,
+                  preview, convert or search the contents, and interrupted uploads
+                  start over instead of resuming.
+                </Label>
+              </div>
               <Button
                 onClick={handleUpload}
-                disabled={!selectedFile || !customName || isUploading}
+                disabled={
+                  selectedFiles.length === 0 ||
+                  (selectedFiles.length === 1 && !customName) ||
+                  isUploading
+                }
               >
                 {isUploading && (
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                 )}
-                Upload Document
+                {selectedFiles.length > 1
+                  ? `Upload ${selectedFiles.length} Documents`
+                  : "Upload Document"}
               </Button>
-            </div>
-          </CardContent>
-        </Card>
-
-        {isLoading ? (
-          <div className="flex justify-center">
-            <Loader2 className="h-8 w-8 animate-spin" />
-          </div>
-        ) : (
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Name</TableHead>
-                <TableHead>Type</TableHead>
-                <TableHead>Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {documents?.map((doc) => (
-                <TableRow key={doc.id}>
-                  <TableCell>{doc.name}</TableCell>
-                  <TableCell>{doc.contentType}</TableCell>
-                  <TableCell>
-                    <div className="flex gap-2">
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => {
-                          const newName = prompt("Enter new name:", doc.name);
-                          if (newName && newName !== doc.name) {
-                            renameMutation.mutate({ id: doc.id, name: newName });
-                          }
-                        }}
-                      >
-                        <Pencil className="h-4 w-4" />
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => window.open(`/api/documents/${doc.id}/download`)}
-                      >
-                        <Download className="h-4 w-4" />
-                      </Button>
+              {uploads.length > 0 && (
+                <div className="grid gap-3">
+                  {uploads.map((upload, index) => (
+                    <div key={index}>
+                      <div className="flex justify-between text-sm mb-1">
+                        <span className="truncate">{upload.name}</span>
+                        <span className="text-muted-foreground shrink-0 ml-4">
+                          {uploadStatusLabel(upload)}
+                        </span>
+                      </div>
+                      <Progress
+                        value={upload.size ? (upload.sentBytes / upload.size) * 100 : 100}
+                        className="h-2"
+                      />
+                      {upload.error && (
+                        <p className="text-sm text-destructive mt-1">{upload.error}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {!isUploading && unfinishedUploads && unfinishedUploads.length > 0 && (
+                <div className="grid gap-3 border-t pt-4">
+                  <p className="text-sm text-muted-foreground">
+                    Unfinished uploads. Select the same file and name again to resume.
+                  </p>
+                  {unfinishedUploads.map((upload) => (
+                    <div key={upload.id} className="flex items-center gap-4">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="truncate">{upload.name}</span>
+                          <span className="text-muted-foreground shrink-0 ml-4">
+                            {formatBytes(upload.receivedBytes)} of {formatBytes(upload.size)}
+                          </span>
+                        </div>
+                        <Progress
+                          value={(upload.receivedBytes / upload.size) * 100}
+                          className="h-2"
+                        />
+                      </div>
                       <Button
                         variant="ghost"
-                        size="sm"
-                        onClick={() => {
-                          if (confirm("Are you sure you want to delete this document?")) {
-                            deleteMutation.mutate(doc.id);
-                          }
-                        }}
+                        size="icon"
+                        onClick={() => handleCancelUpload(upload.id)}
+                        aria-label={`Cancel upload of ${upload.name}`}
                       >
-                        <Trash2 className="h-4 w-4" />
+                        <X className="h-4 w-4" />
                       </Button>
                     </div>
-                  </TableCell>
-                </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {search ? (
+          <SearchResults q={search} folders={folders} onView={setViewingDocument} />
+        ) : (
+          <>
+            <div className="mb-4 flex items-center justify-between gap-4">
+              <Breadcrumb>
+                <BreadcrumbList>
+                  <BreadcrumbItem>
+                    {breadcrumbs.length ? (
+                      <BreadcrumbLink asChild>
+                        <button onClick={() => openFolder(null)}>All documents</button>
+                      </BreadcrumbLink>
+                    ) : (
+                      <BreadcrumbPage>All documents</BreadcrumbPage>
+                    )}
+                  </BreadcrumbItem>
+                  {breadcrumbs.map((folder, index) => (
+                    <Fragment key={folder.id}>
+                      <BreadcrumbSeparator />
+                      <BreadcrumbItem>
+                        {index === breadcrumbs.length - 1 ? (
+                          <BreadcrumbPage>{folder.name}</BreadcrumbPage>
+                        ) : (
+                          <BreadcrumbLink asChild>
+                            <button onClick={() => openFolder(folder.id)}>{folder.name}</button>
+                          </BreadcrumbLink>
+                        )}
+                      </BreadcrumbItem>
+                    </Fragment>
+                  ))}
+                </BreadcrumbList>
+              </Breadcrumb>
+              <div className="flex gap-2">
+                {filtering && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => shareMutation.mutate({ filter })}
+                    disabled={!data?.total || shareMutation.isPending}
+                  >
+                    <QrCode className="mr-2 h-4 w-4" />
+                    Share Matching
+                  </Button>
+                )}
+                {folderId !== null && !filtering && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => shareMutation.mutate({ folderId })}
+                    disabled={shareMutation.isPending}
+                  >
+                    <QrCode className="mr-2 h-4 w-4" />
+                    Share Folder
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    const name = prompt("Folder name:");
+                    if (name) createFolderMutation.mutate(name);
+                  }}
+                  disabled={createFolderMutation.isPending}
+                >
+                  <FolderPlus className="mr-2 h-4 w-4" />
+                  New Folder
+                </Button>
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  variant="outline"
+                  value={view}
+                  onValueChange={(next) => next && setView(next as ListingView)}
+                >
+                  <ToggleGroupItem value="table" title="Table" aria-label="Table view">
+                    <List className="h-4 w-4" />
+                  </ToggleGroupItem>
+                  <ToggleGroupItem value="grid" title="Gallery" aria-label="Gallery view">
+                    <LayoutGrid className="h-4 w-4" />
+                  </ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+            </div>
+
+            <DocumentFilterBar filter={filter} onChange={applyFilter} />
+
+            {isLoading ? (
+              <div className="flex justify-center">
+                <Loader2 className="h-8 w-8 animate-spin" />
+              </div>
+            ) : view === "grid" ? (
+              <DocumentGallery
+                folders={page === 1 && !filtering ? subfolders : []}
+                documents={documents ?? []}
+                selectedIds={selectedIds}
+                onToggleSelected={toggleSelected}
+                onOpenFolder={openFolder}
+                onView={setViewingDocument}
+              />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={toggleAllOnPage}
+                        aria-label="Select all documents on this page"
+                      />
+                    </TableHead>
+                    {sortableHead("name", "Name")}
+                    <TableHead>Type</TableHead>
+                    <TableHead>Labels</TableHead>
+                    {sortableHead("size", "Size")}
+                    {sortableHead("createdAt", "Uploaded")}
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {page === 1 &&
+                    !filtering &&
+                    subfolders.map((folder) => (
+                      <TableRow key={`folder-${folder.id}`}>
+                        <TableCell />
+                        <TableCell colSpan={5}>
+                          <button
+                            className="flex items-center gap-2 font-medium hover:underline"
+                            onClick={() => openFolder(folder.id)}
+                          >
+                            <FolderIcon className="h-4 w-4" />
+                            {folder.name}
+                          </button>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Rename folder"
+                              onClick={() => {
+                                const name = prompt("Enter new name:", folder.name);
+                                if (name && name !== folder.name) {
+                                  renameFolderMutation.mutate({ id: folder.id, name });
+                                }
+                              }}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Move folder"
+                              onClick={() => setMoveTarget({ folder })}
+                            >
+                              <FolderInput className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="QR code for this folder"
+                              onClick={() => shareMutation.mutate({ folderId: folder.id })}
+                              disabled={shareMutation.isPending}
+                            >
+                              <QrCode className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Delete folder"
+                              onClick={() => {
+                                if (
+                                  confirm(
+                                    `Delete "${folder.name}" and its subfolders? Their documents will be moved to the trash.`
+                                  )
+                                ) {
+                                  deleteFolderMutation.mutate(folder.id);
+                                }
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  {documents?.map((doc) => (
+                    <TableRow key={doc.id}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedIds.includes(doc.id)}
+                          onCheckedChange={() => toggleSelected(doc.id)}
+                          aria-label={`Select ${doc.name}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          <DocumentThumbnail document={doc} size="sm" />
+                          <span>
+                            {doc.name}
+                            {doc.endToEnd && (
+                              <Lock
+                                className="ml-2 inline h-3 w-3 text-muted-foreground"
+                                aria-label="End-to-end encrypted"
+                              />
+                            )}
+                            {doc.version > 1 && (
+                              <span className="ml-2 text-xs text-muted-foreground">v{doc.version}</span>
+                            )}
+                          </span>
+                        </div>
+                      </TableCell>
+                      <TableCell>{doc.contentType}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {doc.tags.map((tag) => (
+                            <Badge key={tag} variant="secondary">
+                              {tag}
+                            </Badge>
+                          ))}
+                        </div>
+                        {Object.entries(doc.customFields).map(([key, field]) => (
+                          <p key={key} className="text-xs text-muted-foreground">
+                            {key}: {field.value}
+                          </p>
+                        ))}
+                      </TableCell>
+                      <TableCell>{formatBytes(doc.size)}</TableCell>
+                      <TableCell>{new Date(doc.createdAt).toLocaleDateString()}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              const newName = prompt("Enter new name:", doc.name);
+                              if (newName && newName !== doc.name) {
+                                renameMutation.mutate({ id: doc.id, name: newName });
+                              }
+                            }}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="View"
+                            onClick={() => setViewingDocument(doc)}
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => download(doc)}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Move to folder"
+                            onClick={() => setMoveTarget({ documentIds: [doc.id] })}
+                          >
+                            <FolderInput className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Tags and fields"
+                            onClick={() => setLabelsDocument(doc)}
+                          >
+                            <Tags className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Version history"
+                            onClick={() => setVersionsDocument(doc)}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="QR code for this document"
+                            onClick={() => shareMutation.mutate({ documentIds: [doc.id] })}
+                            disabled={shareMutation.isPending}
+                          >
+                            <QrCode className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              if (confirm("Move this document to the trash?")) {
+                                deleteMutation.mutate(doc.id);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {totalPages > 1 && (
+              <div className="mt-4 flex items-center justify-end gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {page} of {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= totalPages}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </>
         )}
 
-        <div className="mt-8 flex justify-center">
+        <div className="mt-8 flex justify-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setMoveTarget({ documentIds: selectedIds })}
+            disabled={!selectedIds.length}
+          >
+            <FolderInput className="mr-2 h-4 w-4" />
+            Move Selected ({selectedIds.length})
+          </Button>
           <Button
-            onClick={() => setShowQRDialog(true)}
-            disabled={!documents?.length}
+            variant="outline"
+            onClick={() => shareMutation.mutate({ documentIds: selectedIds })}
+            disabled={!selectedIds.length || shareMutation.isPending}
           >
             <QrCode className="mr-2 h-4 w-4" />
+            Share Selected ({selectedIds.length})
+          </Button>
+          <Button
+            onClick={() => shareMutation.mutate({})}
+            disabled={!data?.total || shareMutation.isPending}
+          >
+            {shareMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <QrCode className="mr-2 h-4 w-4" />
+            )}
             Generate QR Code
           </Button>
         </div>
 
-        <Dialog open={showQRDialog} onOpenChange={setShowQRDialog}>
+        <MoveToFolderDialog
+          open={!!moveTarget}
+          title={
+            moveTarget && "folder" in moveTarget
+              ? `Move "${moveTarget.folder.name}"`
+              : `Move ${moveTarget?.documentIds.length ?? 0} document${moveTarget?.documentIds.length === 1 ? "" : "s"}`
+          }
+          folders={folders}
+          excludeFolderId={moveTarget && "folder" in moveTarget ? moveTarget.folder.id : undefined}
+          isPending={moveMutation.isPending}
+          onClose={() => setMoveTarget(null)}
+          onMove={(destination) => moveMutation.mutate({ target: moveTarget!, destination })}
+        />
+
+        <SearchPalette
+          onOpenDocument={setViewingDocument}
+          onSearchAll={(text) => {
+            setSearchText(text);
+            setSearch(text);
+          }}
+        />
+
+        <DocumentViewerDialog
+          document={viewingDocument}
+          onClose={() => setViewingDocument(null)}
+        />
+
+        <DocumentLabelsDialog
+          document={labelsDocument}
+          onClose={() => setLabelsDocument(null)}
+        />
+
+        <DocumentVersionsDialog
+          document={versionsDocument}
+          onClose={() => setVersionsDocument(null)}
+          onShareVersion={(documentId, version) => {
+            setVersionsDocument(null);
+            shareMutation.mutate({
+              documentIds: [documentId],
+              pinnedVersions: [{ documentId, version }],
+            });
+          }}
+        />
+
+        <Dialog open={!!shareLink} onOpenChange={(open) => !open && setShareLink(null)}>
           <DialogContent>
             <DialogHeader>
               <DialogTitle>Document Access QR Code</DialogTitle>
             </DialogHeader>
-            <div className="flex flex-col items-center gap-4">
-              <QRCodeSVG
-                value={`${window.location.origin}/request-access/${user?.id}`}
-                size={256}
-              />
-              <Button onClick={() => setShowQRDialog(false)}>Close</Button>
-            </div>
+            {shareLink && (
+              <div className="flex flex-col items-center gap-4">
+                <QRCodeSVG
+                  value={`${window.location.origin}/request-access/${shareLink.token}${linkKeys?.fragment ?? ""}`}
+                  size={256}
+                />
+                <p className="text-sm text-muted-foreground text-center">
+                  {shareLink.folderId
+                    ? `Shares the folder "${folders.find((folder) => folder.id === shareLink.folderId)?.name}" and everything added to it`
+                    : shareLink.filter
+                      ? `Shares every document matching ${describeFilter(shareLink.filter)}, now and later`
+                      : shareLink.documentIds
+                        ? `Shares ${shareLink.documentIds.length} selected document${shareLink.documentIds.length === 1 ? "" : "s"}`
+                        : "Shares all of your documents"}
+                  {shareLink.pinnedVersions.length > 0 &&
+                    `, pinned to ${shareLink.pinnedVersions.map((pin) => `v${pin.version}`).join(", ")}`}
+                  <br />
+                  Expires {new Date(shareLink.expiresAt).toLocaleString()}
+                  {linkKeys && (
+                    <>
+                      <br />
+                      Includes the keys of the {linkKeys.count} end-to-end encrypted
+                      document{linkKeys.count === 1 ? "" : "s"} it shares now: anyone with
+                      this code can open {linkKeys.count === 1 ? "it" : "them"}. Encrypted
+                      documents added later cannot be opened with it.
+                    </>
+                  )}
+                </p>
+                <div className="flex gap-2">
+                  {!linkKeys && (
+                    <Button
+                      variant="outline"
+                      title="Lets recipients open the end-to-end encrypted documents it shares"
+                      onClick={() => includeKeys(shareLink)}
+                    >
+                      <KeyRound className="mr-2 h-4 w-4" />
+                      Include Keys
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={() => revokeMutation.mutate(shareLink.id)}
+                    disabled={revokeMutation.isPending}
+                  >
+                    Revoke Link
+                  </Button>
+                  <Button onClick={() => setShareLink(null)}>Close</Button>
+                </div>
+              </div>
+            )}
           </DialogContent>
         </Dialog>
       </div>
@@ -1,11 +1,44 @@
+import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useAuth } from "@/hooks/use-auth";
-import { FileText, LogOut, Upload, QrCode } from "lucide-react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { AccessRequest, PinLockout } from "@shared/schema";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  FileText,
+  LogOut,
+  Upload,
+  QrCode,
+  Inbox,
+  Trash2,
+  ShieldAlert,
+  ShieldCheck,
+} from "lucide-react";
 import { Link } from "wouter";
+import { TwoFactorDialog } from "@/components/two-factor-dialog";
 
 export default function HomePage() {
   const { user, logoutMutation } = useAuth();
+  const [twoFactorOpen, setTwoFactorOpen] = useState(false);
+  const { data: accessRequests } = useQuery<AccessRequest[]>({
+    queryKey: ["/api/access-requests"],
+  });
+  const pendingCount =
+    accessRequests?.filter((request) => request.status === "pending").length ?? 0;
+  const { data: pinLockouts } = useQuery<PinLockout[]>({
+    queryKey: ["/api/pin-lockouts"],
+  });
+
+  const dismissLockoutMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/pin-lockouts/${id}/dismiss`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pin-lockouts"] });
+    },
+  });
 
   return (
     <div className="min-h-screen bg-background">
@@ -27,6 +60,27 @@ export default function HomePage() {
       </header>
 
       <main className="container mx-auto px-4 py-8">
+        {pinLockouts?.map((lockout) => (
+          <Alert key={lockout.id} variant="destructive" className="mb-6">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>PIN attempts locked</AlertTitle>
+            <AlertDescription className="flex items-center justify-between gap-4">
+              <span>
+                {lockout.failures} wrong PINs were entered on your share links on{" "}
+                {new Date(lockout.createdAt).toLocaleString()}. Further attempts were
+                blocked until {new Date(lockout.lockedUntil).toLocaleString()}.
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => dismissLockoutMutation.mutate(lockout.id)}
+                disabled={dismissLockoutMutation.isPending}
+              >
+                Dismiss
+              </Button>
+            </AlertDescription>
+          </Alert>
+        ))}
         <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
           <Card>
             <CardHeader>
@@ -78,8 +132,84 @@ export default function HomePage() {
               </Link>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Inbox className="h-5 w-5" />
+                Access Requests
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground mb-4">
+                {pendingCount
+                  ? `${pendingCount} request${pendingCount === 1 ? "" : "s"} waiting for your review.`
+                  : "Review who scanned your QR codes and approve or deny access."}
+              </p>
+              <Link href="/access-requests">
+                <Button className="w-full">Review Requests</Button>
+              </Link>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Trash2 className="h-5 w-5" />
+                Trash
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground mb-4">
+                Restore deleted documents before they are removed for good.
+              </p>
+              <Link href="/trash">
+                <Button className="w-full">Open Trash</Button>
+              </Link>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ShieldCheck className="h-5 w-5" />
+                Two-Factor Authentication
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground mb-4">
+                {user?.twoFactorEnabled
+                  ? "On: logging in asks for a code from your authenticator app."
+                  : "Protect your account with a code from an authenticator app."}
+              </p>
+              <Button className="w-full" onClick={() => setTwoFactorOpen(true)}>
+                {user?.twoFactorEnabled ? "Manage" : "Set Up"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {user?.isAdmin && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldAlert className="h-5 w-5" />
+                  Blocked Clients
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-muted-foreground mb-4">
+                  See who is rate limited or locked out of PIN entry, and lift blocks.
+                </p>
+                <Link href="/admin/blocks">
+                  <Button className="w-full">Review Blocks</Button>
+                </Link>
+              </CardContent>
+            </Card>
+          )}
         </div>
       </main>
+
+      <TwoFactorDialog open={twoFactorOpen} onClose={() => setTwoFactorOpen(false)} />
     </div>
   );
 }
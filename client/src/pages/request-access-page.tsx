@@ -1,15 +1,11 @@
 import { useEffect, useState } from "react";
-import { useParams } from "wouter";
+import { useLocation, useParams } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
-import { 
-  Dialog,
-  DialogContent,
-  DialogHeader,
-  DialogTitle,
-} from "@/components/ui/dialog";
+import { DocumentViewerDialog } from "@/components/document-viewer";
 import {
   Select,
   SelectContent,
@@ -20,30 +16,56 @@ import {
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Document } from "@shared/schema";
-import { Loader2, Download, Eye, File } from "lucide-react";
+import { downloadFormatLabels, useDownloadFormats } from "@/hooks/use-download-formats";
+import { useDocumentDownload } from "@/hooks/use-end-to-end";
+import { unlockKeysFromFragment } from "@/lib/end-to-end";
+import { SharedLinkView } from "@shared/schema";
+import { Loader2, Download, Eye } from "lucide-react";
+
+type SharedDocument = SharedLinkView["documents"][number];
 
 export default function RequestAccessPage() {
-  const { userId } = useParams();
+  const { token } = useParams();
+  const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [isRequesting, setIsRequesting] = useState(false);
   const [pin, setPin] = useState("");
   const [selectedDocs, setSelectedDocs] = useState<number[]>([]);
   const [isOwner, setIsOwner] = useState(false);
-  const [viewingDoc, setViewingDoc] = useState<Document | null>(null);
-  const [showViewer, setShowViewer] = useState(false);
+  const [viewingDoc, setViewingDoc] = useState<SharedDocument | null>(null);
+  const [requesterName, setRequesterName] = useState("");
+  const [requesterEmail, setRequesterEmail] = useState("");
+  const [message, setMessage] = useState("");
 
-  // Fetch documents for the owner
-  const { data: documents, isLoading } = useQuery<Document[]>({
-    queryKey: [`/api/documents/${userId}`],
-    enabled: !!userId,
+  // Resolve the share token into the documents it exposes
+  const { data: shared, isLoading, error } = useQuery<SharedLinkView>({
+    queryKey: [`/api/shared/${token}`, { pageSize: 100, sort: "name", order: "asc" }],
+    enabled: !!token,
   });
+  const documents = shared?.documents;
+  const formatsFor = useDownloadFormats();
+  const download = useDocumentDownload({ share: token! });
+  const canOpen = (docId: number) =>
+    isOwner || !!shared?.grantedDocumentIds.includes(docId);
+
+  // The keys to end-to-end encrypted documents travel in the URL fragment,
+  // which never reaches the server
+  useEffect(() => {
+    unlockKeysFromFragment(window.location.hash).catch(() => {
+      toast({
+        title: "Invalid link keys",
+        description: "Encrypted documents shared by this link cannot be opened.",
+        variant: "destructive",
+      });
+    });
+  }, [toast]);
 
   // Verify PIN mutation
   const verifyPinMutation = useMutation({
     mutationFn: async (pin: string) => {
-      const res = await apiRequest("POST", `/api/verify-pin/${userId}`, { pin });
-      return res.ok;
+      const res = await apiRequest("POST", `/api/shared/${token}/verify-pin`, { pin });
+      const { isValid } = await res.json();
+      return isValid as boolean;
     },
     onSuccess: (isValid) => {
       if (isValid) {
@@ -62,7 +84,7 @@ export default function RequestAccessPage() {
     },
     onError: (error) => {
       toast({
-        title: "Verification failed",
+        title: error.message.startsWith("429:") ? "Too many attempts" : "Verification failed",
         description: error instanceof Error ? error.message : "Please try again",
         variant: "destructive",
       });
@@ -79,18 +101,32 @@ export default function RequestAccessPage() {
       return;
     }
 
+    if (!requesterName.trim()) {
+      toast({
+        title: "Name required",
+        description: "Please tell the owner who is asking for access.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setIsRequesting(true);
-      await apiRequest("POST", "/api/access-requests", {
-        userId: Number(userId),
+      const res = await apiRequest("POST", "/api/access-requests", {
+        token,
         requestedDocuments: selectedDocs,
+        name: requesterName.trim(),
+        email: requesterEmail.trim() || undefined,
+        message: message.trim() || undefined,
         location: window.location.hostname,
       });
+      const { receiptToken } = await res.json();
 
       toast({
         title: "Access request sent",
         description: "The document owner will review your request.",
       });
+      setLocation(`/request-status/${receiptToken}${window.location.hash}`);
     } catch (error) {
       toast({
         title: "Request failed",
@@ -110,17 +146,12 @@ export default function RequestAccessPage() {
     );
   };
 
-  const handleDownload = (docId: number, format?: string) => {
-    let url = `/api/documents/${docId}/download`;
-    if (format) {
-      url += `?format=${format}`;
-    }
-    window.open(url);
+  const handleDownload = (doc: SharedDocument, format?: string) => {
+    download(doc, format ? { format } : {});
   };
 
-  const handleView = (doc: Document) => {
+  const handleView = (doc: SharedDocument) => {
     setViewingDoc(doc);
-    setShowViewer(true);
   };
 
   if (isLoading) {
@@ -131,11 +162,31 @@ export default function RequestAccessPage() {
     );
   }
 
+  if (error || !shared) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Link unavailable</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">
+              This link is invalid, has expired or was revoked. Ask the owner for a new QR code.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
         <CardHeader>
           <CardTitle>Request Document Access</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Shared by {shared.owner.username}
+          </p>
         </CardHeader>
         <CardContent>
           {!isOwner && (
@@ -174,7 +225,7 @@ export default function RequestAccessPage() {
             {documents?.map((doc) => (
               <div key={doc.id} className="flex items-center justify-between">
                 <div className="flex items-center space-x-2">
-                  {!isOwner && (
+                  {!canOpen(doc.id) && (
                     <Checkbox
                       id={`doc-${doc.id}`}
                       checked={selectedDocs.includes(doc.id)}
@@ -188,7 +239,7 @@ export default function RequestAccessPage() {
                     {doc.name}
                   </label>
                 </div>
-                {isOwner && (
+                {canOpen(doc.id) && (
                   <div className="flex items-center gap-2">
                     <Button
                       variant="ghost"
@@ -197,15 +248,16 @@ export default function RequestAccessPage() {
                     >
                       <Eye className="h-4 w-4" />
                     </Button>
-                    <Select onValueChange={(format) => handleDownload(doc.id, format)}>
+                    <Select onValueChange={(format) => handleDownload(doc, format)}>
                       <SelectTrigger className="w-[130px]">
                         <SelectValue placeholder="Download as..." />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="pdf">PDF</SelectItem>
-                        <SelectItem value="docx">Word (DOCX)</SelectItem>
-                        <SelectItem value="png">Image (PNG)</SelectItem>
-                        <SelectItem value="original">Original Format</SelectItem>
+                        {formatsFor(doc).map((format) => (
+                          <SelectItem key={format} value={format}>
+                            {downloadFormatLabels[format]}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -214,11 +266,34 @@ export default function RequestAccessPage() {
             ))}
           </div>
 
+          {!isOwner && (
+            <div className="space-y-2 mt-6">
+              <Input
+                placeholder="Your name"
+                value={requesterName}
+                onChange={(e) => setRequesterName(e.target.value)}
+                maxLength={100}
+              />
+              <Input
+                type="email"
+                placeholder="Email (optional)"
+                value={requesterEmail}
+                onChange={(e) => setRequesterEmail(e.target.value)}
+              />
+              <Textarea
+                placeholder="Message to the owner (optional)"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                maxLength={1000}
+              />
+            </div>
+          )}
+
           {!isOwner && (
             <Button
               className="w-full mt-6"
               onClick={handleRequestAccess}
-              disabled={isRequesting || selectedDocs.length === 0}
+              disabled={isRequesting || selectedDocs.length === 0 || !requesterName.trim()}
             >
               {isRequesting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Request Access
@@ -227,26 +302,11 @@ export default function RequestAccessPage() {
         </CardContent>
       </Card>
 
-      {/* Document Viewer Dialog */}
-      <Dialog open={showViewer} onOpenChange={setShowViewer}>
-        <DialogContent className="max-w-4xl w-full h-[80vh]">
-          <DialogHeader>
-            <DialogTitle className="flex items-center gap-2">
-              <File className="h-5 w-5" />
-              {viewingDoc?.name}
-            </DialogTitle>
-          </DialogHeader>
-          {viewingDoc && (
-            <div className="flex-1 h-full overflow-auto">
-              <iframe
-                src={`/api/documents/${viewingDoc.id}/view`}
-                className="w-full h-full border-0"
-                title={viewingDoc.name}
-              />
-            </div>
-          )}
-        </DialogContent>
-      </Dialog>
+      <DocumentViewerDialog
+        document={viewingDoc}
+        access={{ share: token! }}
+        onClose={() => setViewingDoc(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DocumentViewerDialog } from "@/components/document-viewer";
+import { useDocumentDownload } from "@/hooks/use-end-to-end";
+import { unlockKeysFromFragment } from "@/lib/end-to-end";
+import { AccessRequestReceipt } from "@shared/schema";
+import { Loader2, Download, Eye } from "lucide-react";
+
+type GrantedDocument = AccessRequestReceipt["grantedDocuments"][number];
+
+const statusDescriptions: Record<AccessRequestReceipt["status"], string> = {
+  pending: "Waiting for the owner to review your request. This page updates automatically.",
+  approved: "Your request was approved. The documents below are available to you.",
+  denied: "The owner declined your request.",
+  expired: "This request has expired.",
+  revoked: "The owner revoked access for this request.",
+};
+
+export default function RequestStatusPage() {
+  const { receipt } = useParams();
+  const [viewingDoc, setViewingDoc] = useState<GrantedDocument | null>(null);
+  const download = useDocumentDownload({ receipt: receipt! });
+
+  // Carried over from the share link, for end-to-end encrypted documents
+  useEffect(() => {
+    unlockKeysFromFragment(window.location.hash).catch(() => {});
+  }, []);
+
+  // Poll until the owner has made a decision
+  const { data, isLoading, error } = useQuery<AccessRequestReceipt>({
+    queryKey: [`/api/receipts/${receipt}`],
+    enabled: !!receipt,
+    refetchInterval: (query) =>
+      query.state.data?.status === "pending" ? 5000 : false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Request not found</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground">
+              We could not find a request for this link.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            Request Status
+            <Badge variant={data.status === "approved" ? "default" : "secondary"}>
+              {data.status}
+            </Badge>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Sent to {data.owner.username} on {new Date(data.createdAt).toLocaleString()}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm">{statusDescriptions[data.status]}</p>
+          {data.reason && (
+            <p className="text-sm text-muted-foreground">Reason: {data.reason}</p>
+          )}
+
+          {data.status === "approved" ? (
+            <div className="space-y-2">
+              {data.grantedDocuments.map((doc) => (
+                <div key={doc.id} className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{doc.name}</span>
+                  <div className="flex gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setViewingDoc(doc)}>
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => download(doc)}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {data.grantExpiresAt && (
+                <p className="text-xs text-muted-foreground">
+                  Access ends {new Date(data.grantExpiresAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+          ) : (
+            <ul className="text-sm list-disc pl-5">
+              {data.requestedDocuments.map((doc) => (
+                <li key={doc.id}>{doc.name}</li>
+              ))}
+            </ul>
+          )}
+
+          <p className="text-xs text-muted-foreground break-all">
+            Bookmark this page to check back later: {window.location.href}
+          </p>
+        </CardContent>
+      </Card>
+
+      <DocumentViewerDialog
+        document={viewingDoc}
+        access={{ receipt: receipt! }}
+        onClose={() => setViewingDoc(null)}
+      />
+    </div>
+  );
+}
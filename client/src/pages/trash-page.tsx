@@ -0,0 +1,143 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { TrashedDocument } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatBytes } from "@/lib/utils";
+import { Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+export default function TrashPage() {
+  const { toast } = useToast();
+
+  const { data: documents, isLoading } = useQuery<TrashedDocument[]>({
+    queryKey: ["/api/trash"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/trash/${id}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/documents"] });
+      toast({ title: "Document restored" });
+    },
+    onError: onError("Restore failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/trash/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({ title: "Document deleted permanently" });
+    },
+    onError: onError("Delete failed"),
+  });
+
+  const emptyMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/trash");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({ title: "Trash emptied" });
+    },
+    onError: onError("Could not empty trash"),
+  });
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-3xl font-bold">Trash</h1>
+          <Button
+            variant="destructive"
+            onClick={() => {
+              if (confirm("Permanently delete every document in the trash? This cannot be undone.")) {
+                emptyMutation.mutate();
+              }
+            }}
+            disabled={!documents?.length || emptyMutation.isPending}
+          >
+            {emptyMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Trash2 className="mr-2 h-4 w-4" />
+            )}
+            Empty Trash
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !documents?.length ? (
+          <p className="text-center text-muted-foreground">The trash is empty.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead>Deleted</TableHead>
+                <TableHead>Removed for good</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {documents.map((doc) => (
+                <TableRow key={doc.id}>
+                  <TableCell>{doc.name}</TableCell>
+                  <TableCell>{formatBytes(doc.size)}</TableCell>
+                  <TableCell>{new Date(doc.deletedAt).toLocaleString()}</TableCell>
+                  <TableCell>{new Date(doc.purgeAt).toLocaleDateString()}</TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Restore"
+                        onClick={() => restoreMutation.mutate(doc.id)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        title="Delete permanently"
+                        onClick={() => {
+                          if (confirm(`Permanently delete "${doc.name}"? This cannot be undone.`)) {
+                            deleteMutation.mutate(doc.id);
+                          }
+                        }}
+                        disabled={deleteMutation.isPending}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
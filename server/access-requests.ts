@@ -0,0 +1,151 @@
+import { randomBytes } from "crypto";
+import { storage } from "./storage";
+import { DEFAULT_GRANT_TTL_HOURS } from "./document-access";
+import { publish } from "./events";
+import type { AccessRequest, AccessRequestEvent, AccessRequestStatus } from "@shared/schema";
+
+// pending → approved | denied | expired | revoked, and an approval can later be
+// revoked by the owner or lapse once its grants expire. Everything else is final.
+const transitions: Record<AccessRequestStatus, AccessRequestStatus[]> = {
+  pending: ["approved", "denied", "expired", "revoked"],
+  approved: ["revoked", "expired"],
+  denied: [],
+  expired: [],
+  revoked: [],
+};
+
+const PENDING_TTL_HOURS = Number(process.env.ACCESS_REQUEST_TTL_HOURS) || 72;
+// Past this many pending requests an owner gets no new ones until they act on
+// some, so nobody can bury them in fake requests
+export const MAX_PENDING_PER_OWNER = Number(process.env.ACCESS_REQUEST_MAX_PENDING) || 50;
+const EXPIRY_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+export class AccessRequestTransitionError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export type TransitionActor = Pick<AccessRequestEvent, "actorType" | "actorId">;
+
+export type TransitionOptions = {
+  reason?: string;
+  // Subset of the requested documents to grant; defaults to all of them
+  documentIds?: number[];
+  expiresInHours?: number;
+};
+
+export function generateReceiptToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+export async function canReceiveAccessRequest(ownerId: number) {
+  return (await storage.countPendingAccessRequests(ownerId)) < MAX_PENDING_PER_OWNER;
+}
+
+export function canTransition(from: AccessRequestStatus, to: AccessRequestStatus) {
+  return transitions[from].includes(to);
+}
+
+// Moves a request to a new status, applying the side effects of that move on
+// grants and recording it in the request's history.
+export async function transitionAccessRequest(
+  request: AccessRequest,
+  to: AccessRequestStatus,
+  actor: TransitionActor,
+  options: TransitionOptions = {},
+): Promise<AccessRequest> {
+  if (!canTransition(request.status, to)) {
+    throw new AccessRequestTransitionError(
+      409,
+      `Cannot move a request from ${request.status} to ${to}`,
+    );
+  }
+
+  let approvedDocuments = request.approvedDocuments;
+  if (to === "approved") {
+    const documentIds = options.documentIds ?? request.requestedDocuments;
+    if (
+      !documentIds.length ||
+      documentIds.some((id) => !request.requestedDocuments.includes(id))
+    ) {
+      throw new AccessRequestTransitionError(400, "Approved documents must be part of the request");
+    }
+    approvedDocuments = documentIds;
+  }
+
+  const updated = await storage.updateAccessRequestFromStatus(request.id, request.status, {
+    status: to,
+    approvedDocuments,
+  });
+  if (!updated) {
+    throw new AccessRequestTransitionError(409, "This request was changed in the meantime");
+  }
+
+  if (to === "approved" && request.requesterSessionId) {
+    // Approval hands the requester's session a time-boxed grant for the approved documents
+    const expiresInHours = options.expiresInHours || DEFAULT_GRANT_TTL_HOURS;
+    await storage.createAccessGrant({
+      userId: request.userId,
+      accessRequestId: request.id,
+      sessionId: request.requesterSessionId,
+      documentIds: approvedDocuments!,
+      pinnedVersions: request.pinnedVersions,
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+    });
+  } else if (request.status === "approved") {
+    await storage.revokeAccessGrants(request.id);
+  }
+
+  await storage.createAccessRequestEvent({
+    accessRequestId: request.id,
+    fromStatus: request.status,
+    toStatus: to,
+    actorType: actor.actorType,
+    actorId: actor.actorId,
+    reason: options.reason ?? null,
+  });
+
+  return updated;
+}
+
+// Expires pending requests nobody answered and approvals whose grants ran out
+export async function expireAccessRequests() {
+  const staleBefore = new Date(Date.now() - PENDING_TTL_HOURS * 60 * 60 * 1000);
+  const candidates = [
+    ...(await storage.getStalePendingAccessRequests(staleBefore)),
+    ...(await storage.getLapsedApprovedAccessRequests()),
+  ];
+
+  const expired: AccessRequest[] = [];
+  for (const request of candidates) {
+    try {
+      expired.push(
+        await transitionAccessRequest(
+          request,
+          "expired",
+          { actorType: "system", actorId: null },
+          { reason: request.status === "pending" ? "No response from owner" : "Access grant expired" },
+        ),
+      );
+    } catch (error) {
+      // The owner answered it since it was picked up; nothing to expire
+      if (error instanceof AccessRequestTransitionError) continue;
+      throw error;
+    }
+    publish(request.userId, { type: "access-request.expired", accessRequestId: request.id });
+  }
+  return expired;
+}
+
+export function startAccessRequestExpiry() {
+  const timer = setInterval(() => {
+    expireAccessRequests().catch((error) => {
+      console.error("Error expiring access requests:", error);
+    });
+  }, EXPIRY_SWEEP_INTERVAL_MS);
+  timer.unref();
+}
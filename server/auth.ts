@@ -1,11 +1,31 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Response } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { rateLimit } from "./rate-limit";
+import { closeSessionSockets } from "./events";
+import {
+  User as SelectUser,
+  disableTwoFactorSchema,
+  endToEndKeyCheckSchema,
+  twoFactorCodeSchema,
+  type PublicUser,
+  type RecoveryCodes,
+  type TwoFactorChallenge,
+  type TwoFactorSetup,
+} from "@shared/schema";
+import { fromZodError } from "zod-validation-error";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  totpUri,
+  verifySecondFactor,
+  verifyTotp,
+} from "./two-factor";
 
 declare global {
   namespace Express {
@@ -13,6 +33,24 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Written by passport.serializeUser for logged-in users
+    passport: { user: number };
+    verifiedShareLinks: number[];
+    accessRequestIds: number[];
+    // Half-authenticated: the password was right, but the session is not
+    // logged in until a second factor code is too
+    pendingLogin: { userId: number; expiresAt: number; attempts: number };
+    // A new TOTP secret, until the user confirms it with a code
+    twoFactorSetup: string;
+  }
+}
+
+const PENDING_LOGIN_TTL_MS = 5 * 60 * 1000;
+// Wrong codes allowed per password entry before it has to be entered again
+const MAX_SECOND_FACTOR_ATTEMPTS = 5;
+
 const scryptAsync = promisify(scrypt);
 
 async function hashPassword(input: string) {
@@ -28,6 +66,25 @@ export async function compareHash(supplied: string, stored: string) {
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Sends secrets the user sees once: never cached, and never logged
+function sendSensitive(res: Response, body: TwoFactorSetup | RecoveryCodes) {
+  res.locals.sensitive = true;
+  res.set("Cache-Control", "no-store");
+  res.json(body);
+}
+
+// The only user fields that leave the server
+export function toPublicUser(user: SelectUser): PublicUser {
+  return {
+    id: user.id,
+    username: user.username,
+    email: user.email,
+    isAdmin: user.isAdmin,
+    endToEndKeyCheck: user.endToEndKeyCheck,
+    twoFactorEnabled: !!user.totpSecret,
+  };
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.REPL_ID!,
@@ -40,7 +97,8 @@ export function setupAuth(app: Express) {
     app.set("trust proxy", 1);
   }
 
-  app.use(session(sessionSettings));
+  const sessionMiddleware = session(sessionSettings);
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
@@ -67,37 +125,211 @@ export function setupAuth(app: Express) {
     done(null, user);
   });
 
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", rateLimit("register"), async (req, res, next) => {
     const existingUser = await storage.getUserByUsername(req.body.email);
     if (existingUser) {
       return res.status(400).send("Email already exists");
     }
 
+    // Pick the fields rather than spreading the body, which could set isAdmin
     const user = await storage.createUser({
-      ...req.body,
+      username: req.body.username,
+      email: req.body.email,
       password: await hashPassword(req.body.password),
       pin: await hashPassword(req.body.pin),
     });
 
     req.login(user, (err) => {
       if (err) return next(err);
-      res.status(201).json(user);
+      res.status(201).json(toPublicUser(user));
     });
   });
 
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    res.status(200).json(req.user);
+  app.post("/api/login", rateLimit("login"), (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) return res.sendStatus(401);
+
+      if (user.totpSecret) {
+        req.session.pendingLogin = {
+          userId: user.id,
+          expiresAt: Date.now() + PENDING_LOGIN_TTL_MS,
+          attempts: 0,
+        };
+        const challenge: TwoFactorChallenge = { twoFactorRequired: true };
+        return res.status(200).json(challenge);
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  // Second step of a login with two-factor on. Logging in regenerates the
+  // session, which drops the pending login along with everything else.
+  app.post("/api/login/two-factor", rateLimit("two-factor"), async (req, res, next) => {
+    const pending = req.session.pendingLogin;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingLogin;
+      return res.status(401).json({ message: "Please log in again" });
+    }
+
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const user = await storage.getUser(pending.userId);
+      if (!user || !(await verifySecondFactor(user, parsed.data.code))) {
+        const attempts = pending.attempts + 1;
+        if (attempts >= MAX_SECOND_FACTOR_ATTEMPTS) {
+          delete req.session.pendingLogin;
+          return res.status(401).json({ message: "Too many wrong codes. Please log in again" });
+        }
+        req.session.pendingLogin = { ...pending, attempts };
+        return res.status(400).json({ message: "Invalid code" });
+      }
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(200).json(toPublicUser(user));
+      });
+    } catch (error) {
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ message: "Failed to verify code" });
+    }
   });
 
   app.post("/api/logout", (req, res, next) => {
+    // Logging out starts a new session, so note the one being left first
+    const { user, sessionID } = req;
     req.logout((err) => {
       if (err) return next(err);
+      if (user) closeSessionSockets(user.id, sessionID);
       res.sendStatus(200);
     });
   });
 
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toPublicUser(req.user));
+  });
+
+  // Saved the first time the user picks an end-to-end passphrase
+  app.post("/api/user/end-to-end-key-check", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const parsed = endToEndKeyCheckSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      if (!(await storage.setEndToEndKeyCheck(req.user.id, parsed.data.keyCheck))) {
+        return res.status(409).json({ message: "An end-to-end passphrase is already set" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error saving end-to-end key check:", error);
+      res.status(500).json({ message: "Failed to save passphrase check" });
+    }
   });
+
+  // Two-factor enrollment: a new secret is kept in the session, and only
+  // saved once the user proves their app has it by entering a code
+  app.post("/api/two-factor/setup", (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    if (req.user.totpSecret) {
+      return res.status(409).json({ message: "Two-factor authentication is already on" });
+    }
+
+    const secret = generateTotpSecret();
+    req.session.twoFactorSetup = secret;
+    sendSensitive(res, { secret, otpauthUrl: totpUri(secret, req.user.email) });
+  });
+
+  app.post("/api/two-factor/enable", rateLimit("two-factor"), async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    const secret = req.session.twoFactorSetup;
+    if (!secret) {
+      return res.status(400).json({ message: "Start two-factor setup first" });
+    }
+
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    const counter = verifyTotp(secret, parsed.data.code);
+    if (counter === null) {
+      return res.status(400).json({ message: "Invalid code" });
+    }
+
+    try {
+      const codes = generateRecoveryCodes();
+      await storage.enableTwoFactor(req.user.id, secret, counter, codes.map(hashRecoveryCode));
+      delete req.session.twoFactorSetup;
+      sendSensitive(res, { recoveryCodes: codes });
+    } catch (error) {
+      console.error("Error enabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+
+  // Replaces all recovery codes, e.g. when they run out or may have leaked
+  app.post("/api/two-factor/recovery-codes", rateLimit("two-factor"), async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    if (!req.user.totpSecret) {
+      return res.status(400).json({ message: "Two-factor authentication is off" });
+    }
+
+    const parsed = twoFactorCodeSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      if (!(await verifySecondFactor(req.user, parsed.data.code))) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+      const codes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(req.user.id, codes.map(hashRecoveryCode));
+      sendSensitive(res, { recoveryCodes: codes });
+    } catch (error) {
+      console.error("Error replacing recovery codes:", error);
+      res.status(500).json({ message: "Failed to replace recovery codes" });
+    }
+  });
+
+  app.post("/api/two-factor/disable", rateLimit("two-factor"), async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    if (!req.user.totpSecret) {
+      return res.status(400).json({ message: "Two-factor authentication is off" });
+    }
+
+    const parsed = disableTwoFactorSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+
+    try {
+      const { password, code } = parsed.data;
+      if (
+        !(await compareHash(password, req.user.password)) ||
+        !(await verifySecondFactor(req.user, code))
+      ) {
+        return res.status(400).json({ message: "Invalid password or code" });
+      }
+      await storage.disableTwoFactor(req.user.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error disabling two-factor authentication:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+
+  // Returned so other transports (the event socket) can read the same sessions
+  return sessionMiddleware;
 }
\ No newline at end of file
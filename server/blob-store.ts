@@ -0,0 +1,116 @@
+import fs from "fs/promises";
+import { createReadStream, createWriteStream } from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+  S3Client,
+  GetObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+
+// Inclusive byte range, as in an HTTP Range header
+export type ByteRange = { start: number; end: number };
+
+// Where document bytes live. Rows in `documents` only keep the key.
+export interface BlobStore {
+  put(key: string, data: Readable): Promise<void>;
+  get(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalBlobStore implements BlobStore {
+  constructor(private root: string) {}
+
+  private pathFor(key: string) {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, data: Readable): Promise<void> {
+    const file = this.pathFor(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so a crash never leaves a half-written blob behind
+    try {
+      await pipeline(data, createWriteStream(`${file}.tmp`));
+    } catch (error) {
+      await fs.rm(`${file}.tmp`, { force: true });
+      throw error;
+    }
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Readable> {
+    const file = this.pathFor(key);
+    // Fail here rather than on the first read, before any response headers go out
+    await fs.access(file);
+    return createReadStream(file, range);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.pathFor(key), { force: true });
+  }
+}
+
+// Works with AWS S3 and S3-compatible servers. For a local MinIO, point
+// S3_ENDPOINT at it (e.g. http://localhost:9000) and set S3_FORCE_PATH_STYLE=true.
+export class S3BlobStore implements BlobStore {
+  constructor(
+    private client: S3Client,
+    private bucket: string,
+  ) {}
+
+  async put(key: string, data: Readable): Promise<void> {
+    // Multipart upload, so the body can be streamed without knowing its length
+    await new Upload({
+      client: this.client,
+      params: { Bucket: this.bucket, Key: key, Body: data },
+    }).done();
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Readable> {
+    const object = await this.client.send(
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }),
+    );
+    if (!object.Body) throw new Error(`Blob not found: ${key}`);
+    return object.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucket, Key: key }),
+    );
+  }
+}
+
+export function createBlobStore(): BlobStore {
+  if (process.env.BLOB_STORE === "s3") {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when BLOB_STORE=s3");
+    }
+
+    const client = new S3Client({
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      credentials:
+        process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+          ? {
+              accessKeyId: process.env.S3_ACCESS_KEY_ID,
+              secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+            }
+          : undefined,
+    });
+    return new S3BlobStore(client, process.env.S3_BUCKET);
+  }
+
+  return new LocalBlobStore(process.env.BLOB_DIR || path.resolve("data", "blobs"));
+}
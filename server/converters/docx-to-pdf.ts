@@ -0,0 +1,14 @@
+import mammoth from "mammoth";
+import type { Converter } from "./types";
+import { renderTextToPdf } from "./text-layout";
+
+// Keeps the document's text and paragraph breaks; styling is not carried over
+export const docxToPdf: Converter = {
+  name: "docx-to-pdf",
+  from: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  to: "pdf",
+  async convert(input) {
+    const { value } = await mammoth.extractRawText({ buffer: input });
+    return renderTextToPdf(value);
+  },
+};
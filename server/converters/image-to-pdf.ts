@@ -0,0 +1,19 @@
+import { PDFDocument } from "pdf-lib";
+import type { Converter } from "./types";
+
+// Puts the image on a single page of exactly its own size
+export const imageToPdf: Converter = {
+  name: "image-to-pdf",
+  from: ["image/png", "image/jpeg"],
+  to: "pdf",
+  async convert(input, contentType) {
+    const pdf = await PDFDocument.create();
+    const image =
+      contentType === "image/png" ? await pdf.embedPng(input) : await pdf.embedJpg(input);
+
+    const page = pdf.addPage([image.width, image.height]);
+    page.drawImage(image, { x: 0, y: 0, width: image.width, height: image.height });
+
+    return Buffer.from(await pdf.save());
+  },
+};
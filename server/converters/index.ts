@@ -0,0 +1,41 @@
+import type { ConversionCapability, DownloadFormat } from "@shared/schema";
+import { UnsupportedConversionError, type Converter } from "./types";
+import { textToPdf } from "./text-to-pdf";
+import { imageToPdf } from "./image-to-pdf";
+import { docxToPdf } from "./docx-to-pdf";
+import { pdfToPng } from "./pdf-to-png";
+
+export { UnsupportedConversionError } from "./types";
+export type { Converter } from "./types";
+
+const converters: Converter[] = [textToPdf, imageToPdf, docxToPdf, pdfToPng];
+
+export function registerConverter(converter: Converter) {
+  converters.push(converter);
+}
+
+export function getConversionCapabilities(): ConversionCapability[] {
+  return converters.map(({ from, to }) => ({ from, to }));
+}
+
+// Content type a converted download is served as
+export const formatContentTypes: Record<Exclude<DownloadFormat, "original">, string> = {
+  pdf: "application/pdf",
+  png: "image/png",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+};
+
+// Converts a document's bytes, or returns them untouched when they already are
+// in the requested format. Throws UnsupportedConversionError otherwise.
+export async function convertDocument(
+  input: Buffer,
+  contentType: string,
+  format: Exclude<DownloadFormat, "original">,
+) {
+  if (formatContentTypes[format] === contentType) return input;
+
+  const converter = converters.find((c) => c.to === format && c.from.includes(contentType));
+  if (!converter) throw new UnsupportedConversionError(contentType, format);
+
+  return converter.convert(input, contentType);
+}
@@ -0,0 +1,44 @@
+import { createRequire } from "module";
+import path from "path";
+import { createCanvas } from "@napi-rs/canvas";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { Converter } from "./types";
+
+const RENDER_SCALE = 2;
+
+// Glyphs for the 14 standard PDF fonts ship with pdfjs-dist; load them from disk
+const pdfjsRoot = path.dirname(createRequire(import.meta.url).resolve("pdfjs-dist/package.json"));
+const standardFontDataUrl = path.join(pdfjsRoot, "standard_fonts") + path.sep;
+
+// Renders the first page only
+export const pdfToPng: Converter = {
+  name: "pdf-to-png",
+  from: ["application/pdf"],
+  to: "png",
+  async convert(input) {
+    const pdf = await getDocument({
+      data: new Uint8Array(input),
+      isEvalSupported: false,
+      disableFontFace: true,
+      standardFontDataUrl,
+    }).promise;
+
+    try {
+      const page = await pdf.getPage(1);
+      const viewport = page.getViewport({ scale: RENDER_SCALE });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const context = canvas.getContext("2d");
+
+      context.fillStyle = "white";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({
+        canvasContext: context as unknown as CanvasRenderingContext2D,
+        viewport,
+      }).promise;
+
+      return canvas.toBuffer("image/png");
+    } finally {
+      await pdf.destroy();
+    }
+  },
+};
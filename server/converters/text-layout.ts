@@ -0,0 +1,65 @@
+import { PDFDocument, StandardFonts, type PDFFont } from "pdf-lib";
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const FONT_SIZE = 11;
+const LINE_HEIGHT = 14;
+
+// The standard fonts only cover WinAnsi, so anything else is replaced
+function toEncodable(font: PDFFont, text: string) {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text.replace(/\t/g, "    "))
+    .map((char) => (supported.has(char.codePointAt(0)!) ? char : "?"))
+    .join("");
+}
+
+function wrapLine(font: PDFFont, line: string, maxWidth: number) {
+  const wrapped: string[] = [];
+  let current = "";
+
+  for (const word of line.split(/(\s+)/)) {
+    const candidate = current + word;
+    if (font.widthOfTextAtSize(candidate, FONT_SIZE) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current.trim()) wrapped.push(current.trimEnd());
+    current = word.trimStart();
+
+    // A single word wider than the page is split by characters
+    while (font.widthOfTextAtSize(current, FONT_SIZE) > maxWidth) {
+      let cut = current.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(current.slice(0, cut), FONT_SIZE) > maxWidth) cut--;
+      wrapped.push(current.slice(0, cut));
+      current = current.slice(cut);
+    }
+  }
+
+  wrapped.push(current.trimEnd());
+  return wrapped;
+}
+
+// Lays plain text out on A4 pages, wrapping long lines
+export async function renderTextToPdf(text: string) {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const maxWidth = PAGE_WIDTH - 2 * MARGIN;
+
+  const lines = toEncodable(font, text)
+    .split(/\r?\n/)
+    .flatMap((line) => wrapLine(font, line, maxWidth));
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+  for (const line of lines) {
+    if (y < MARGIN) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    page.drawText(line, { x: MARGIN, y, size: FONT_SIZE, font });
+    y -= LINE_HEIGHT;
+  }
+
+  return Buffer.from(await pdf.save());
+}
@@ -0,0 +1,11 @@
+import type { Converter } from "./types";
+import { renderTextToPdf } from "./text-layout";
+
+export const textToPdf: Converter = {
+  name: "text-to-pdf",
+  from: ["text/plain", "text/markdown"],
+  to: "pdf",
+  async convert(input) {
+    return renderTextToPdf(input.toString("utf8"));
+  },
+};
@@ -0,0 +1,18 @@
+import type { DownloadFormat } from "@shared/schema";
+
+// A converter turns documents of some content types into one output format.
+// New conversions are added by implementing this and registering it in ./index.
+export interface Converter {
+  name: string;
+  from: string[];
+  to: Exclude<DownloadFormat, "original">;
+  convert(input: Buffer, contentType: string): Promise<Buffer>;
+}
+
+export class UnsupportedConversionError extends Error {
+  status = 415;
+
+  constructor(contentType: string, format: string) {
+    super(`Cannot convert ${contentType} to ${format}`);
+  }
+}
@@ -0,0 +1,64 @@
+import type { Request } from "express";
+import type { AccessGrant, Document, ShareLink } from "@shared/schema";
+import { storage } from "./storage";
+import { resolveShareLink, shareLinkCovers } from "./share-links";
+
+export const DEFAULT_GRANT_TTL_HOURS = 24;
+
+export type DocumentAccess =
+  | { via: "owner" }
+  | { via: "grant"; grant: AccessGrant }
+  | { via: "share-link"; link: ShareLink };
+
+// Documents of one owner that approved access requests have unlocked for this session
+export async function getGrantedDocumentIds(req: Request, ownerId: number) {
+  const grants = await storage.getActiveAccessGrants(req.sessionID);
+  return Array.from(
+    new Set(
+      grants
+        .filter((grant) => grant.userId === ownerId)
+        .flatMap((grant) => grant.documentIds),
+    ),
+  );
+}
+
+// Grants covering a document, from this session or from the approved request
+// behind a receipt token (whichever device the requester comes back from)
+async function findGrant(req: Request, document: Document) {
+  const grants = await storage.getActiveAccessGrants(req.sessionID);
+
+  const receipt = typeof req.query.receipt === "string" ? req.query.receipt : undefined;
+  if (receipt) {
+    const request = await storage.getAccessRequestByReceipt(receipt);
+    if (request) grants.push(...(await storage.getActiveAccessGrantsForRequest(request.id)));
+  }
+
+  return grants.find(
+    (grant) => grant.userId === document.userId && grant.documentIds.includes(document.id),
+  );
+}
+
+// Decides whether, and how, the caller may read a document's bytes. Owners
+// always can; anyone else needs the document to be out of the trash, and
+// either an unexpired grant from an approved access request or a share link
+// whose PIN was verified in this session and whose scope includes it.
+export async function resolveDocumentAccess(
+  req: Request,
+  document: Document,
+): Promise<DocumentAccess | undefined> {
+  if (req.user?.id === document.userId) return { via: "owner" };
+  // Trashed documents are no longer shared, however they were shared before
+  if (document.deletedAt) return undefined;
+
+  const grant = await findGrant(req, document);
+  if (grant) return { via: "grant", grant };
+
+  const token = typeof req.query.share === "string" ? req.query.share : undefined;
+  if (!token) return undefined;
+
+  const link = await resolveShareLink(token);
+  if (!link || link.userId !== document.userId) return undefined;
+  if (!req.session.verifiedShareLinks?.includes(link.id)) return undefined;
+
+  return (await shareLinkCovers(link, document)) ? { via: "share-link", link } : undefined;
+}
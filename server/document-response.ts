@@ -0,0 +1,97 @@
+import type { Request, Response } from "express";
+import { pipeline } from "stream/promises";
+import type { Document } from "@shared/schema";
+import type { ByteRange } from "./blob-store";
+import { storage } from "./storage";
+import { isInlineType } from "./file-types";
+
+// Parses a single-range `Range: bytes=...` header. Returns null for ranges we
+// cannot satisfy and undefined when the whole body should be sent instead
+// (no header, multiple ranges, or a unit other than bytes).
+export function parseRange(header: string | undefined, size: number): ByteRange | null | undefined {
+  if (!header) return undefined;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return undefined;
+
+  const [, first, last] = match;
+  let start: number;
+  let end: number;
+  if (first === "") {
+    // Suffix range: the last N bytes
+    if (last === "") return null;
+    start = Math.max(0, size - Number(last));
+    end = size - 1;
+  } else {
+    start = Number(first);
+    end = last === "" ? size - 1 : Math.min(Number(last), size - 1);
+  }
+
+  if (start > end || start >= size) return null;
+  return { start, end };
+}
+
+// An attachment header that survives quotes and non-ASCII characters in names
+export function attachmentDisposition(filename: string) {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// Streams a document's stored bytes with Content-Length, ETag and support for
+// conditional and Range requests, so viewers can resume or load parts of it.
+// Browsers are told not to second-guess the type, and types that could run
+// script from our origin are only ever offered as a download. End-to-end
+// encrypted documents are opaque bytes until the browser decrypts them.
+export async function sendDocumentContent(
+  req: Request,
+  res: Response,
+  document: Document,
+  contentType = document.endToEnd ? "application/octet-stream" : document.contentType,
+) {
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  if (!isInlineType(contentType) && !res.hasHeader("Content-Disposition")) {
+    res.setHeader("Content-Disposition", attachmentDisposition(document.name));
+  }
+
+  // Rows not yet moved out of the legacy column have no recorded size or checksum
+  if (document.size === null || document.checksum === null) {
+    res.setHeader("Content-Type", contentType);
+    return res.send(await storage.getDocumentContent(document));
+  }
+
+  const size = document.size;
+  const etag = `"${document.checksum}"`;
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("ETag", etag);
+  res.setHeader("Accept-Ranges", "bytes");
+
+  if (req.headers["if-none-match"] === etag) {
+    return res.status(304).end();
+  }
+
+  // A stale If-Range means the client's partial copy is outdated: send it all
+  const ifRange = req.headers["if-range"];
+  const range = !ifRange || ifRange === etag ? parseRange(req.headers.range, size) : undefined;
+
+  if (range === null) {
+    res.setHeader("Content-Range", `bytes */${size}`);
+    return res.status(416).end();
+  }
+
+  if (range) {
+    res.status(206);
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    res.setHeader("Content-Length", range.end - range.start + 1);
+  } else {
+    res.setHeader("Content-Length", size);
+  }
+
+  if (req.method === "HEAD") return res.end();
+
+  const stream = await storage.openDocumentContent(document, range);
+  await pipeline(stream, res);
+}
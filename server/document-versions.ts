@@ -0,0 +1,116 @@
+import type { Request } from "express";
+import type {
+  Document,
+  DocumentPage,
+  DocumentVersion,
+  DocumentMetadata,
+  NewDocument,
+  PinnedVersion,
+} from "@shared/schema";
+import { storage, type StoredContent } from "./storage";
+import { queueDocumentIndexing } from "./search";
+import { requestPreviews } from "./previews";
+import type { DocumentAccess } from "./document-access";
+
+// The document as it was at an earlier version: same row, that version's bytes
+export function documentAtVersion(document: Document, version: DocumentVersion): Document {
+  return {
+    ...document,
+    content: null,
+    contentType: version.contentType,
+    blobKey: version.blobKey,
+    size: version.size,
+    checksum: version.checksum,
+    endToEnd: version.endToEnd,
+    version: version.version,
+  };
+}
+
+// Uploading under a name the owner already uses adds a version to that
+// document instead of creating a second one. Its text is extracted for search,
+// and its preview generated, in the background.
+export async function saveUploadedDocument(
+  uploadedBy: number,
+  document: NewDocument,
+  content: StoredContent,
+) {
+  const existing = await storage.getDocumentByName(document.userId, document.name);
+  const saved = existing
+    ? {
+        document: await storage.addDocumentVersion(existing, content, document.contentType, uploadedBy),
+        created: false,
+      }
+    : { document: await storage.createDocument(document, content), created: true };
+
+  queueDocumentIndexing(saved.document);
+  requestPreviews();
+  return saved;
+}
+
+// Which version's bytes a request gets. Owners can ask for any version with
+// `?version=`; share links, and grants from requests made through them, serve
+// the version the link pins, or the latest. Undefined means that version is
+// not available to the caller.
+export async function resolveDocumentVersion(
+  req: Request,
+  document: Document,
+  access: DocumentAccess,
+): Promise<Document | undefined> {
+  const requested = typeof req.query.version === "string" ? Number(req.query.version) : undefined;
+
+  let version = requested;
+  if (access.via !== "owner") {
+    const pins = access.via === "share-link" ? access.link.pinnedVersions : access.grant.pinnedVersions;
+    const pinned = pins.find((pin) => pin.documentId === document.id)?.version;
+    const allowed = pinned ?? document.version;
+    if (requested !== undefined && requested !== allowed) return undefined;
+    version = allowed;
+  }
+
+  if (version === undefined || version === document.version) return document;
+  if (!Number.isInteger(version)) return undefined;
+
+  const row = await storage.getDocumentVersion(document, version);
+  return row && documentAtVersion(document, row);
+}
+
+// A document's metadata as of the version it is pinned at, if it is pinned
+async function atPinnedVersion<T extends DocumentMetadata>(
+  metadata: T,
+  pinnedVersions: PinnedVersion[],
+): Promise<T> {
+  const pin = pinnedVersions.find((pinned) => pinned.documentId === metadata.id);
+  if (!pin || pin.version === metadata.version) return metadata;
+
+  const document = await storage.getDocument(metadata.id);
+  const version = document && (await storage.getDocumentVersion(document, pin.version));
+  if (!version) return metadata;
+
+  const { contentType, size, checksum, endToEnd } = version;
+  return { ...metadata, contentType, size, checksum, endToEnd, version: version.version };
+}
+
+export async function pinMetadataVersions(
+  documents: DocumentMetadata[],
+  pinnedVersions: PinnedVersion[],
+): Promise<DocumentMetadata[]> {
+  return await Promise.all(documents.map((metadata) => atPinnedVersion(metadata, pinnedVersions)));
+}
+
+// Listings seen through a share link describe the pinned version of a document
+// rather than its latest one
+export async function applyPinnedVersions(
+  page: DocumentPage,
+  pinnedVersions: PinnedVersion[],
+): Promise<DocumentPage> {
+  if (pinnedVersions.length === 0) return page;
+
+  const pinnedDocuments = await Promise.all(
+    page.documents.map(async (metadata) => {
+      const pinned = await atPinnedVersion(metadata, pinnedVersions);
+      // Previews are of the latest version only
+      return pinned === metadata ? metadata : { ...pinned, thumbnailUrl: null, previewText: null };
+    }),
+  );
+  return { ...page, documents: pinnedDocuments };
+}
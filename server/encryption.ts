@@ -0,0 +1,123 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  type Cipher,
+  type Decipher,
+} from "crypto";
+import { Transform } from "stream";
+
+// AES-256 throughout
+const KEY_BYTES = 32;
+const BLOCK_BYTES = 16;
+
+// Master keys as `id:base64` pairs, newest first, e.g.
+//   ENCRYPTION_MASTER_KEYS=2025-06:<32 bytes, base64>,2024-01:<32 bytes, base64>
+// New user keys are wrapped with the first; the others are kept only to unwrap
+// user keys until `npm run keys:rotate` has moved them to the first. Read on
+// first use; the server calls loadMasterKeys at startup to fail early.
+let masterKeys: Map<string, Buffer> | undefined;
+
+export function loadMasterKeys() {
+  if (masterKeys) return masterKeys;
+  if (!process.env.ENCRYPTION_MASTER_KEYS) {
+    throw new Error(
+      "ENCRYPTION_MASTER_KEYS must be set. Generate a key with `openssl rand -base64 32`.",
+    );
+  }
+
+  masterKeys = new Map(
+    process.env.ENCRYPTION_MASTER_KEYS.split(",").map((entry) => {
+      const separator = entry.indexOf(":");
+      const id = entry.slice(0, separator).trim();
+      const key = Buffer.from(entry.slice(separator + 1).trim(), "base64");
+      if (separator < 1 || key.length !== KEY_BYTES) {
+        throw new Error(`ENCRYPTION_MASTER_KEYS entries must be id:<${KEY_BYTES} bytes, base64>`);
+      }
+      return [id, key] as const;
+    }),
+  );
+  return masterKeys;
+}
+
+function masterKeyFor(id: string) {
+  const key = loadMasterKeys().get(id);
+  if (!key) throw new Error(`Master key ${id} is not configured`);
+  return key;
+}
+
+// The master key new user keys are wrapped with
+export function currentMasterKeyId() {
+  return loadMasterKeys().keys().next().value!;
+}
+
+export function generateKey() {
+  return randomBytes(KEY_BYTES);
+}
+
+export function generateIv() {
+  return randomBytes(BLOCK_BYTES);
+}
+
+// Keys are wrapped with AES-GCM, so a wrong or tampered key fails loudly
+// instead of decrypting to garbage. Stored as base64 of nonce, tag, ciphertext.
+export function wrapKey(key: Buffer, wrappingKey: Buffer) {
+  const nonce = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", wrappingKey, nonce);
+  const wrapped = Buffer.concat([cipher.update(key), cipher.final()]);
+  return Buffer.concat([nonce, cipher.getAuthTag(), wrapped]).toString("base64");
+}
+
+export function unwrapKey(wrapped: string, wrappingKey: Buffer) {
+  const bytes = Buffer.from(wrapped, "base64");
+  const decipher = createDecipheriv("aes-256-gcm", wrappingKey, bytes.subarray(0, 12));
+  decipher.setAuthTag(bytes.subarray(12, 28));
+  return Buffer.concat([decipher.update(bytes.subarray(28)), decipher.final()]);
+}
+
+export function wrapUserKey(key: Buffer) {
+  const masterKeyId = currentMasterKeyId();
+  return { wrappedKey: wrapKey(key, masterKeyFor(masterKeyId)), masterKeyId };
+}
+
+export function unwrapUserKey({ wrappedKey, masterKeyId }: { wrappedKey: string; masterKeyId: string }) {
+  return unwrapKey(wrappedKey, masterKeyFor(masterKeyId));
+}
+
+function toTransform(cipher: Cipher | Decipher, skip = 0) {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, done) {
+      let output = cipher.update(chunk);
+      if (skip) {
+        const skipped = Math.min(skip, output.length);
+        output = output.subarray(skipped);
+        skip -= skipped;
+      }
+      done(null, output);
+    },
+    flush(done) {
+      done(null, cipher.final());
+    },
+  });
+}
+
+// Blob bodies use AES-CTR: the ciphertext is the same length as the content
+// and any block can be decrypted on its own, so Range requests still work
+export function encryptContent(key: Buffer, iv: Buffer) {
+  return toTransform(createCipheriv("aes-256-ctr", key, iv));
+}
+
+// Where to start reading a blob to decrypt from `offset`: CTR decryption has
+// to begin on a block boundary
+export function alignToBlock(offset: number) {
+  return offset - (offset % BLOCK_BYTES);
+}
+
+// Decrypts ciphertext read from `alignToBlock(offset)` onwards, dropping the
+// bytes before `offset`
+export function decryptContent(key: Buffer, iv: Buffer, offset = 0) {
+  const block = Math.floor(offset / BLOCK_BYTES);
+  const counter = BigInt.asUintN(128, BigInt(`0x${iv.toString("hex")}`) + BigInt(block));
+  const blockIv = Buffer.from(counter.toString(16).padStart(BLOCK_BYTES * 2, "0"), "hex");
+  return toTransform(createDecipheriv("aes-256-ctr", key, blockIv), offset - block * BLOCK_BYTES);
+}
@@ -0,0 +1,92 @@
+import { WebSocketServer, type WebSocket } from "ws";
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import type { ServerEvent } from "@shared/schema";
+import { log } from "./vite";
+
+export const EVENTS_PATH = "/ws";
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// Open sockets per logged-in user; one user may have several tabs open
+const connections = new Map<number, Set<WebSocket>>();
+// The login session each socket was opened with, so logging out closes them
+const socketSessions = new WeakMap<WebSocket, string>();
+
+export function publish(userId: number, event: ServerEvent) {
+  const sockets = connections.get(userId);
+  if (!sockets) return;
+
+  const payload = JSON.stringify(event);
+  sockets.forEach((socket) => socket.send(payload));
+}
+
+// Closes the sockets opened with a session that has logged out. The user's
+// other sessions keep theirs.
+export function closeSessionSockets(userId: number, sessionId: string) {
+  connections.get(userId)?.forEach((socket) => {
+    if (socketSessions.get(socket) === sessionId) socket.close(1008, "Logged out");
+  });
+}
+
+// Browsers send the session cookie with WebSocket upgrades from any site, so
+// only pages served from this host may open one
+function isSameOrigin(req: IncomingMessage) {
+  const origin = req.headers.origin;
+  if (!origin || !req.headers.host) return false;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\n\r\n`);
+  socket.destroy();
+}
+
+// Accepts WebSocket upgrades on EVENTS_PATH from this site's pages, for users
+// logged in through the regular express session. Other upgrade requests (e.g. Vite's HMR socket)
+// are left alone.
+export function setupEvents(server: Server, sessionMiddleware: RequestHandler) {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakSet<WebSocket>();
+
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url ?? "/", "http://localhost").pathname !== EVENTS_PATH) return;
+    if (!isSameOrigin(req)) return reject(socket, "403 Forbidden");
+
+    sessionMiddleware(req as Request, {} as Response, () => {
+      const { session, sessionID } = req as Request;
+      const userId = session?.passport?.user;
+      if (!userId) return reject(socket, "401 Unauthorized");
+
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const sockets = connections.get(userId) ?? new Set();
+        sockets.add(ws);
+        connections.set(userId, sockets);
+        socketSessions.set(ws, sessionID);
+        alive.add(ws);
+
+        ws.on("pong", () => alive.add(ws));
+        ws.on("close", () => {
+          sockets.delete(ws);
+          if (!sockets.size) connections.delete(userId);
+        });
+      });
+    });
+  });
+
+  // Drop sockets whose browser went away without closing them
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) return ws.terminate();
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  log(`event socket listening on ${EVENTS_PATH}`);
+}
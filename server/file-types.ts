@@ -0,0 +1,174 @@
+import { Readable } from "stream";
+import { isUtf8 } from "buffer";
+
+// What a file's type is decided from: the browser-supplied type is only a
+// claim, checked against the file's first bytes.
+
+const DOCX = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const DEFAULT_ALLOWED_TYPES = [
+  "application/pdf",
+  "application/msword",
+  DOCX,
+  "text/plain",
+  "text/markdown",
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+];
+
+// Comma-separated content types, e.g. ALLOWED_UPLOAD_TYPES=application/pdf,image/png
+export const ALLOWED_UPLOAD_TYPES = process.env.ALLOWED_UPLOAD_TYPES
+  ? process.env.ALLOWED_UPLOAD_TYPES.split(",").map((type) => type.trim().toLowerCase()).filter(Boolean)
+  : DEFAULT_ALLOWED_TYPES;
+
+// How much of a file is read to tell its type
+export const SNIFF_BYTES = 8192;
+
+// Types a browser may render from our origin. Anything else is only ever
+// served as an attachment, so stored HTML, SVG and the like cannot run script.
+const INLINE_TYPES = new Set([
+  "application/pdf",
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "text/plain",
+  "text/markdown",
+  "text/csv",
+]);
+
+export class FileTypeError extends Error {
+  status = 415;
+}
+
+type Signature = { type: string; parts: [offset: number, bytes: string | number[]][] };
+
+const signatures: Signature[] = [
+  { type: "application/pdf", parts: [[0, "%PDF-"]] },
+  { type: "image/png", parts: [[0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]]] },
+  { type: "image/jpeg", parts: [[0, [0xff, 0xd8, 0xff]]] },
+  { type: "image/gif", parts: [[0, "GIF87a"]] },
+  { type: "image/gif", parts: [[0, "GIF89a"]] },
+  { type: "image/webp", parts: [[0, "RIFF"], [8, "WEBP"]] },
+  { type: "application/zip", parts: [[0, [0x50, 0x4b, 0x03, 0x04]]] },
+  { type: "application/x-ole-storage", parts: [[0, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]]] },
+];
+
+// Text that browsers would treat as active content if it were ever sniffed
+const markupPrefixes: [prefix: string, type: string][] = [
+  ["<!doctype html", "text/html"],
+  ["<html", "text/html"],
+  ["<head", "text/html"],
+  ["<body", "text/html"],
+  ["<script", "text/html"],
+  ["<iframe", "text/html"],
+  ["<svg", "image/svg+xml"],
+  ["<?xml", "application/xml"],
+];
+
+// Formats that share a container format with others, and so share its
+// signature. An upload that claims no type is taken to be the first allowed
+// one.
+const compatibleTypes: Record<string, string[]> = {
+  "application/zip": [
+    "application/zip",
+    DOCX,
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ],
+  "application/x-ole-storage": [
+    "application/msword",
+    "application/vnd.ms-excel",
+    "application/vnd.ms-powerpoint",
+  ],
+  "text/plain": ["text/plain", "text/markdown", "text/csv"],
+};
+
+function matches(head: Buffer, [offset, bytes]: Signature["parts"][number]) {
+  const expected = typeof bytes === "string" ? Buffer.from(bytes, "latin1") : Buffer.from(bytes);
+  return head.subarray(offset, offset + expected.length).equals(expected);
+}
+
+function looksLikeText(head: Buffer) {
+  if (head.includes(0)) return false;
+  // The sample may end partway through a multi-byte character
+  for (let cut = 0; cut < 4 && cut <= head.length; cut++) {
+    if (isUtf8(head.subarray(0, head.length - cut))) return true;
+  }
+  return false;
+}
+
+// The content type a file's first bytes show it to be, or null if they are
+// not a format we recognise
+export function detectContentType(head: Buffer): string | null {
+  const signature = signatures.find(({ parts }) => parts.every((part) => matches(head, part)));
+  if (signature) return signature.type;
+
+  if (!looksLikeText(head)) return null;
+  const start = head.toString("utf8").replace(/^\uFEFF/, "").trimStart().toLowerCase();
+  const markup = markupPrefixes.find(([prefix]) => start.startsWith(prefix));
+  return markup ? markup[1] : "text/plain";
+}
+
+function normalize(contentType: string) {
+  return contentType.split(";")[0].trim().toLowerCase();
+}
+
+export function isAllowedType(contentType: string) {
+  const type = normalize(contentType);
+  return !type || type === "application/octet-stream" || ALLOWED_UPLOAD_TYPES.includes(type);
+}
+
+// The type to store an upload as. The claimed type must agree with what the
+// bytes show; with no useful claim, the detected type is used. Throws
+// FileTypeError for unrecognised, mismatched or disallowed files.
+export function resolveContentType(claimed: string, head: Buffer): string {
+  const detected = detectContentType(head);
+  if (!detected) throw new FileTypeError("The file's type could not be recognised");
+
+  const family = compatibleTypes[detected] ?? [detected];
+  const claim = normalize(claimed);
+  const type =
+    !claim || claim === "application/octet-stream"
+      ? (family.find((candidate) => ALLOWED_UPLOAD_TYPES.includes(candidate)) ?? family[0])
+      : claim;
+
+  if (!family.includes(type)) {
+    throw new FileTypeError(`The file's contents (${detected}) do not match its type (${claim})`);
+  }
+  if (!ALLOWED_UPLOAD_TYPES.includes(type)) {
+    throw new FileTypeError(`${type} files are not allowed`);
+  }
+  return type;
+}
+
+export function isInlineType(contentType: string) {
+  return INLINE_TYPES.has(normalize(contentType));
+}
+
+// Reads the first `length` bytes of a stream without losing them: the
+// returned stream replays them before the rest
+export async function peekStream(source: Readable, length = SNIFF_BYTES) {
+  const iterator: AsyncIterator<Buffer> = source[Symbol.asyncIterator]();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  while (size < length) {
+    const { value, done } = await iterator.next();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  const head = Buffer.concat(chunks);
+
+  async function* replay() {
+    if (head.length) yield head;
+    for (;;) {
+      const { value, done } = await iterator.next();
+      if (done) return;
+      yield value;
+    }
+  }
+  return { head: head.subarray(0, length), stream: Readable.from(replay()) };
+}
@@ -1,6 +1,16 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { loadMasterKeys } from "./encryption";
+
+// Stored documents can neither be written nor read without the master keys,
+// so refuse to start rather than fail on the first upload. See README.md.
+try {
+  loadMasterKeys();
+} catch (error) {
+  console.error((error as Error).message);
+  process.exit(1);
+}
 
 const app = express();
 app.use(express.json());
@@ -21,7 +31,8 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      // Responses flagged sensitive (secrets, recovery codes) stay out of the logs
+      if (capturedJsonResponse && !res.locals.sensitive) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -0,0 +1,94 @@
+import { storage } from "./storage";
+import { publish } from "./events";
+import { describeWait } from "./rate-limit";
+
+// Every PIN attempt counts against the link owner and against the client's
+// address, so neither guessing one owner's PIN from many addresses nor many
+// owners' PINs from one address gets far. After a few free attempts each one
+// waits twice as long as the last, and MAX_FAILURES locks the key out.
+const FREE_ATTEMPTS = Number(process.env.PIN_FREE_ATTEMPTS) || 3;
+const BACKOFF_BASE_SECONDS = Number(process.env.PIN_BACKOFF_BASE_SECONDS) || 2;
+const MAX_FAILURES = Number(process.env.PIN_MAX_FAILURES) || 10;
+const LOCKOUT_MINUTES = Number(process.env.PIN_LOCKOUT_MINUTES) || 30;
+// Failures older than this are forgotten
+const FAILURE_WINDOW_HOURS = Number(process.env.PIN_FAILURE_WINDOW_HOURS) || 24;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export class PinAttemptError extends Error {
+  status = 429;
+
+  constructor(public retryAfterSeconds: number) {
+    super(`Too many PIN attempts. Try again in ${describeWait(retryAfterSeconds)}.`);
+  }
+}
+
+// When the next attempt may be made after `failures` in a row
+function blockUntil(failures: number) {
+  if (failures >= MAX_FAILURES) return new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+  if (failures < FREE_ATTEMPTS) return null;
+  const seconds = Math.min(
+    BACKOFF_BASE_SECONDS * 2 ** (failures - FREE_ATTEMPTS),
+    LOCKOUT_MINUTES * 60,
+  );
+  return new Date(Date.now() + seconds * 1000);
+}
+
+function failureWindowStart() {
+  return new Date(Date.now() - FAILURE_WINDOW_HOURS * 60 * 60 * 1000);
+}
+
+// Checks a PIN for `ownerId` on behalf of the client at `ip`. The attempt is
+// counted before `verify` runs, so parallel guesses cannot slip past the
+// limit; a correct PIN then resets the owner's count and takes the attempt,
+// and any backoff it started, back from the client's. Throws PinAttemptError while either is blocked.
+export async function attemptPin(
+  ownerId: number,
+  ip: string,
+  verify: () => Promise<boolean>,
+): Promise<boolean> {
+  const ownerKey = `user:${ownerId}`;
+  const clientKey = `ip:${ip}`;
+
+  const { blockedUntil, attempts } = await storage.registerPinAttempt(
+    [ownerKey, clientKey],
+    failureWindowStart(),
+    blockUntil,
+  );
+  if (blockedUntil) {
+    throw new PinAttemptError(Math.max(1, Math.ceil((blockedUntil.getTime() - Date.now()) / 1000)));
+  }
+
+  if (await verify()) {
+    await storage.clearPinAttempts(ownerKey);
+    await storage.forgivePinAttempt(clientKey);
+    return true;
+  }
+
+  const locked = attempts.filter((attempt) => attempt.failures >= MAX_FAILURES);
+  if (locked.length) {
+    const failures = Math.max(...locked.map((attempt) => attempt.failures));
+    const lockedUntil = new Date(Math.max(...locked.map((attempt) => attempt.blockedUntil!.getTime())));
+    console.warn(`PIN attempts for user #${ownerId} from ${ip} locked out until ${lockedUntil.toISOString()}`);
+    // Saved for the owner to see later; the push only tells them right away
+    try {
+      await storage.createPinLockout({ userId: ownerId, failures, lockedUntil });
+    } catch (error) {
+      console.error("Error saving PIN lockout:", error);
+    }
+    publish(ownerId, { type: "pin.locked", failures, lockedUntil: lockedUntil.toISOString() });
+  }
+  return false;
+}
+
+export async function deleteStalePinAttempts() {
+  return await storage.deleteStalePinAttempts(failureWindowStart());
+}
+
+export function startPinAttemptCleanup() {
+  const timer = setInterval(() => {
+    deleteStalePinAttempts().catch((error) => {
+      console.error("Error deleting stale PIN attempts:", error);
+    });
+  }, CLEANUP_INTERVAL_MS);
+  timer.unref();
+}
@@ -0,0 +1,118 @@
+import { Readable } from "stream";
+import mammoth from "mammoth";
+import { createCanvas, loadImage } from "@napi-rs/canvas";
+import type { Document, DocumentPreview } from "@shared/schema";
+import { storage } from "./storage";
+import { convertDocument } from "./converters";
+import { extractText } from "./search";
+
+// Thumbnails fit in a square this many pixels wide
+const THUMBNAIL_SIZE = Number(process.env.THUMBNAIL_SIZE) || 320;
+const PREVIEW_TEXT_CHARS = 1000;
+// Larger files get no preview; they are marked as failed rather than retried
+const MAX_PREVIEW_BYTES = Number(process.env.PREVIEW_MAX_BYTES) || 50 * 1024 * 1024;
+const PREVIEW_BATCH_SIZE = 20;
+const PREVIEW_SWEEP_INTERVAL_MS = 60 * 1000;
+
+export const DOCX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const thumbnailTypes = ["image/png", "image/jpeg", "image/gif", "image/webp", "application/pdf"];
+const textPreviewTypes = ["text/plain", "text/markdown", DOCX_CONTENT_TYPE];
+
+// Scales an image down (never up) to fit the thumbnail square, on white so
+// transparent images stay legible
+async function renderThumbnail(image: Buffer) {
+  const source = await loadImage(image);
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext("2d");
+  context.fillStyle = "white";
+  context.fillRect(0, 0, width, height);
+  context.drawImage(source, 0, 0, width, height);
+  return canvas.toBuffer("image/webp", 80);
+}
+
+async function generatePreview(
+  document: Document,
+): Promise<Pick<DocumentPreview, "thumbnailKey" | "previewText">> {
+  const content = await storage.getDocumentContent(document);
+
+  if (thumbnailTypes.includes(document.contentType)) {
+    // PDFs are thumbnailed from their first page
+    const image =
+      document.contentType === "application/pdf"
+        ? await convertDocument(content, document.contentType, "png")
+        : content;
+    const thumbnail = await renderThumbnail(image);
+    const { blobKey } = await storage.writeContent(document.userId, Readable.from(thumbnail));
+    return { thumbnailKey: blobKey, previewText: null };
+  }
+
+  const text = await extractText(content, document.contentType);
+  return { thumbnailKey: null, previewText: text.trim().slice(0, PREVIEW_TEXT_CHARS) };
+}
+
+const SAFE_HREF = /^(https?:|mailto:|#)/i;
+
+// Word documents as HTML for the in-app viewer. Mammoth escapes text and emits
+// a small set of tags; link targets are the only way script could get in, so
+// anything but web, mail and in-page links loses its href.
+export async function renderDocxHtml(content: Buffer) {
+  const { value } = await mammoth.convertToHtml({ buffer: content });
+  return value.replace(/ href="([^"]*)"/g, (attribute, href: string) =>
+    SAFE_HREF.test(href) ? attribute : "",
+  );
+}
+
+let running = false;
+
+// Works through documents missing a preview for their current version, a
+// batch at a time, until none are left. Failures are recorded on the preview
+// row so that version is not tried again.
+export async function generatePendingPreviews() {
+  if (running) return;
+  running = true;
+  try {
+    for (;;) {
+      const pending = await storage.getDocumentsWithoutPreview(
+        [...thumbnailTypes, ...textPreviewTypes],
+        PREVIEW_BATCH_SIZE,
+      );
+      if (!pending.length) break;
+
+      for (const document of pending) {
+        try {
+          if ((document.size ?? 0) > MAX_PREVIEW_BYTES) throw new Error("Too large to preview");
+          const preview = await generatePreview(document);
+          await storage.saveDocumentPreview(document, { ...preview, error: null });
+        } catch (error) {
+          console.error(`Preview generation for document ${document.id} failed:`, error);
+          await storage.saveDocumentPreview(document, {
+            thumbnailKey: null,
+            previewText: null,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+    }
+  } finally {
+    running = false;
+  }
+}
+
+// Uploads nudge the job so previews appear promptly; the sweep catches
+// anything missed, such as documents uploaded while the server was down
+export function requestPreviews() {
+  generatePendingPreviews().catch((error) => {
+    console.error("Preview generation failed:", error);
+  });
+}
+
+export function startPreviewGeneration() {
+  requestPreviews();
+  setInterval(requestPreviews, PREVIEW_SWEEP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,157 @@
+import type { RequestHandler } from "express";
+import { storage } from "./storage";
+
+// Fixed-window rate limits per route group and client address. Each group's
+// limit can be set with RATE_LIMIT_<GROUP>=<requests>/<window>, e.g.
+// RATE_LIMIT_LOGIN=10/15m; windows are in s, m or h.
+const DEFAULT_LIMITS = {
+  login: "10/15m",
+  register: "5/1h",
+  "access-requests": "10/1h",
+  "two-factor": "10/15m",
+};
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+export type RateLimitGroup = keyof typeof DEFAULT_LIMITS;
+
+type Limit = { maxHits: number; windowMs: number };
+
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+function parseLimit(group: string, value: string): Limit {
+  const match = /^(\d+)\/(\d+)([smh])$/.exec(value.trim());
+  if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) {
+    throw new Error(`Invalid rate limit for ${group}: "${value}" (expected e.g. 10/15m)`);
+  }
+  return { maxHits: Number(match[1]), windowMs: Number(match[2]) * UNIT_MS[match[3]] };
+}
+
+const limits = Object.fromEntries(
+  Object.entries(DEFAULT_LIMITS).map(([group, fallback]) => {
+    const variable = `RATE_LIMIT_${group.toUpperCase().replace(/-/g, "_")}`;
+    return [group, parseLimit(group, process.env[variable] || fallback)];
+  }),
+) as Record<RateLimitGroup, Limit>;
+
+// The hits counted in a key's current window
+export type RateLimitWindow = {
+  key: string;
+  hits: number;
+  maxHits: number;
+  windowEndsAt: Date;
+};
+
+// Where hits are counted. The database store is shared by every server
+// process and survives restarts; the memory store is for a single process.
+export interface RateLimitStore {
+  hit(key: string, maxHits: number, windowMs: number): Promise<RateLimitWindow>;
+  // Keys over their limit in a window that has not ended yet
+  getBlocked(): Promise<RateLimitWindow[]>;
+  clear(key: string): Promise<boolean>;
+  deleteExpired(): Promise<number>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitWindow>();
+
+  async hit(key: string, maxHits: number, windowMs: number): Promise<RateLimitWindow> {
+    const now = new Date();
+    const current = this.windows.get(key);
+    const window =
+      current && current.windowEndsAt > now
+        ? { ...current, hits: current.hits + 1, maxHits }
+        : { key, hits: 1, maxHits, windowEndsAt: new Date(now.getTime() + windowMs) };
+    this.windows.set(key, window);
+    return window;
+  }
+
+  async getBlocked(): Promise<RateLimitWindow[]> {
+    const now = new Date();
+    return Array.from(this.windows.values())
+      .filter((window) => window.hits > window.maxHits && window.windowEndsAt > now)
+      .sort((a, b) => b.windowEndsAt.getTime() - a.windowEndsAt.getTime());
+  }
+
+  async clear(key: string): Promise<boolean> {
+    return this.windows.delete(key);
+  }
+
+  async deleteExpired(): Promise<number> {
+    const now = new Date();
+    let deleted = 0;
+    this.windows.forEach((window, key) => {
+      if (window.windowEndsAt <= now) {
+        this.windows.delete(key);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+}
+
+export class DatabaseRateLimitStore implements RateLimitStore {
+  async hit(key: string, maxHits: number, windowMs: number): Promise<RateLimitWindow> {
+    return await storage.hitRateLimit(key, maxHits, new Date(Date.now() + windowMs));
+  }
+
+  async getBlocked(): Promise<RateLimitWindow[]> {
+    return await storage.getBlockedRateLimits();
+  }
+
+  async clear(key: string): Promise<boolean> {
+    return await storage.deleteRateLimit(key);
+  }
+
+  async deleteExpired(): Promise<number> {
+    return await storage.deleteExpiredRateLimits();
+  }
+}
+
+export function createRateLimitStore(): RateLimitStore {
+  return process.env.RATE_LIMIT_STORE === "memory"
+    ? new MemoryRateLimitStore()
+    : new DatabaseRateLimitStore();
+}
+
+export const rateLimitStore = createRateLimitStore();
+
+// "45 seconds", "3 minutes"
+export function describeWait(seconds: number) {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+// Answers 429 with Retry-After once a client goes over the group's limit,
+// until the window ends. Requests over the limit still count, but a blocked
+// client cannot push the end of the window further out.
+export function rateLimit(group: RateLimitGroup): RequestHandler {
+  const { maxHits, windowMs } = limits[group];
+
+  return async (req, res, next) => {
+    let window: RateLimitWindow;
+    try {
+      window = await rateLimitStore.hit(`${group}:${req.ip ?? "unknown"}`, maxHits, windowMs);
+    } catch (error) {
+      console.error("Rate limit error:", error);
+      return res.status(500).json({ message: "Failed to check rate limit" });
+    }
+
+    res.set("RateLimit-Limit", String(maxHits));
+    res.set("RateLimit-Remaining", String(Math.max(0, maxHits - window.hits)));
+    if (window.hits <= maxHits) return next();
+
+    const retryAfter = Math.max(1, Math.ceil((window.windowEndsAt.getTime() - Date.now()) / 1000));
+    res.set("Retry-After", String(retryAfter));
+    res.status(429).json({ message: `Too many requests. Try again in ${describeWait(retryAfter)}.` });
+  };
+}
+
+export function startRateLimitCleanup() {
+  const timer = setInterval(() => {
+    rateLimitStore.deleteExpired().catch((error) => {
+      console.error("Error deleting expired rate limits:", error);
+    });
+  }, CLEANUP_INTERVAL_MS);
+  timer.unref();
+}
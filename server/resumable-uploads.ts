@@ -0,0 +1,188 @@
+import { Readable, Transform } from "stream";
+import { storage } from "./storage";
+import { MAX_UPLOAD_BYTES } from "./uploads";
+import { saveUploadedDocument } from "./document-versions";
+import { FileTypeError, SNIFF_BYTES, isAllowedType, resolveContentType } from "./file-types";
+import {
+  END_TO_END_HEADER_BYTES,
+  END_TO_END_MAGIC,
+  type CreateUpload,
+  type Document,
+  type UploadProgress,
+  type UploadSession,
+} from "@shared/schema";
+
+// Protocol: POST /api/uploads to start, PUT /api/uploads/:id with an
+// Upload-Offset header for each chunk, POST /api/uploads/:id/complete at the
+// end. GET /api/uploads/:id tells a client where to resume after a drop.
+
+export const UPLOAD_CHUNK_BYTES = Number(process.env.UPLOAD_CHUNK_BYTES) || 5 * 1024 * 1024;
+const UPLOAD_TTL_HOURS = Number(process.env.UPLOAD_SESSION_TTL_HOURS) || 24;
+const EXPIRY_SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+export class UploadError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+// Uploads stay open for a while after their last chunk
+function uploadExpiry() {
+  return new Date(Date.now() + UPLOAD_TTL_HOURS * 60 * 60 * 1000);
+}
+
+export function toUploadProgress(upload: UploadSession): UploadProgress {
+  return {
+    id: upload.id,
+    name: upload.name,
+    contentType: upload.contentType,
+    size: upload.size,
+    checksum: upload.checksum,
+    receivedBytes: upload.receivedBytes,
+    expiresAt: upload.expiresAt.toISOString(),
+    chunkSize: UPLOAD_CHUNK_BYTES,
+  };
+}
+
+export async function startUpload(userId: number, upload: CreateUpload) {
+  if (upload.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(413, `File is larger than the ${Math.floor(MAX_UPLOAD_BYTES / (1024 * 1024))}MB limit`);
+  }
+  if (!isAllowedType(upload.contentType)) {
+    throw new UploadError(415, `${upload.contentType} files are not allowed`);
+  }
+  if (upload.folderId !== null) {
+    const folder = await storage.getFolder(upload.folderId);
+    if (!folder || folder.userId !== userId) {
+      throw new UploadError(400, "Unknown folder");
+    }
+  }
+
+  return await storage.createUploadSession({
+    userId,
+    ...upload,
+    expiresAt: uploadExpiry(),
+  });
+}
+
+// Stores one chunk of the body at `offset`, which must be where the upload
+// left off. A chunk cut short by a dropped connection is discarded; the
+// client asks for the offset again and resends from there.
+export async function appendChunk(upload: UploadSession, offset: number, body: Readable) {
+  if (offset !== upload.receivedBytes) {
+    throw new UploadError(409, `Upload is at offset ${upload.receivedBytes}`);
+  }
+
+  const limit = Math.min(UPLOAD_CHUNK_BYTES, upload.size - upload.receivedBytes);
+  let received = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, _encoding, done) {
+      received += chunk.length;
+      if (received > limit) {
+        done(new UploadError(413, `Chunk may be at most ${limit} bytes`));
+      } else {
+        done(null, chunk);
+      }
+    },
+  });
+  body.on("error", (error) => limiter.destroy(error));
+  body.on("aborted", () => limiter.destroy(new UploadError(400, "Chunk upload was interrupted")));
+
+  const chunk = await storage.writeContent(upload.userId, body.pipe(limiter));
+  if (chunk.size === 0) {
+    await storage.deleteContent(chunk.blobKey);
+    return upload;
+  }
+
+  const updated = await storage.appendUploadChunk(upload, chunk, uploadExpiry());
+  if (!updated) {
+    await storage.deleteContent(chunk.blobKey);
+    throw new UploadError(409, "Another chunk was written at this offset");
+  }
+  return updated;
+}
+
+// Joins the chunks, checks them against the checksum given at the start and
+// the claimed type against the file's contents, and only then creates the
+// document, or its next version if the name is taken
+export async function completeUpload(upload: UploadSession): Promise<Document> {
+  if (upload.receivedBytes !== upload.size) {
+    throw new UploadError(409, `Upload is incomplete: ${upload.receivedBytes} of ${upload.size} bytes received`);
+  }
+
+  const content = await storage.combineContent(upload.userId, upload.chunkKeys);
+  if (content.checksum !== upload.checksum) {
+    await storage.deleteContent(content.blobKey);
+    await discardUpload(upload);
+    throw new UploadError(422, "Checksum mismatch: the uploaded file is corrupt, please upload it again");
+  }
+
+  // Encrypted files cannot be sniffed; they only have to look encrypted
+  let contentType = upload.contentType;
+  try {
+    const head = await storage.readContentHead(content, SNIFF_BYTES);
+    if (!upload.endToEnd) {
+      contentType = resolveContentType(upload.contentType, head);
+    } else if (
+      head.length <= END_TO_END_HEADER_BYTES ||
+      head.toString("latin1", 0, END_TO_END_MAGIC.length) !== END_TO_END_MAGIC
+    ) {
+      throw new FileTypeError("The file was not encrypted in the browser");
+    }
+  } catch (error) {
+    await storage.deleteContent(content.blobKey);
+    await discardUpload(upload);
+    if (error instanceof FileTypeError) throw new UploadError(error.status, error.message);
+    throw error;
+  }
+
+  // Claim the session so a repeated complete call cannot create a second document
+  if (!(await storage.deleteUploadSession(upload.id))) {
+    await storage.deleteContent(content.blobKey);
+    throw new UploadError(409, "Upload was already completed");
+  }
+
+  const { document } = await saveUploadedDocument(
+    upload.userId,
+    {
+      userId: upload.userId,
+      name: upload.name,
+      contentType,
+      folderId: upload.folderId,
+    },
+    { ...content, endToEnd: upload.endToEnd },
+  );
+  await deleteChunks(upload);
+  return document;
+}
+
+async function deleteChunks(upload: UploadSession) {
+  for (const key of upload.chunkKeys) {
+    await storage.deleteContent(key);
+  }
+}
+
+export async function discardUpload(upload: UploadSession) {
+  await storage.deleteUploadSession(upload.id);
+  await deleteChunks(upload);
+}
+
+export async function expireUploads() {
+  const expired = await storage.getExpiredUploadSessions();
+  for (const upload of expired) {
+    await discardUpload(upload);
+  }
+  return expired;
+}
+
+export function startUploadExpiry() {
+  const timer = setInterval(() => {
+    expireUploads().catch((error) => {
+      console.error("Error expiring uploads:", error);
+    });
+  }, EXPIRY_SWEEP_INTERVAL_MS);
+  timer.unref();
+}
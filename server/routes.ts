@@ -1,57 +1,254 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import multer from "multer";
-import { storage } from "./storage";
+import { pipeline } from "stream/promises";
+import { storage, type DocumentScope } from "./storage";
+import { MAX_UPLOAD_BYTES, uploadSingle } from "./uploads";
+import { ALLOWED_UPLOAD_TYPES } from "./file-types";
+import { attachmentDisposition, sendDocumentContent } from "./document-response";
+import {
+  applyPinnedVersions,
+  pinMetadataVersions,
+  resolveDocumentVersion,
+  saveUploadedDocument,
+} from "./document-versions";
+import {
+  appendChunk,
+  completeUpload,
+  discardUpload,
+  startUpload,
+  startUploadExpiry,
+  toUploadProgress,
+  UploadError,
+} from "./resumable-uploads";
+import { purgeDate, startTrashPurge } from "./trash";
+import { queueDocumentIndexing } from "./search";
+import {
+  DOCX_CONTENT_TYPE,
+  renderDocxHtml,
+  requestPreviews,
+  startPreviewGeneration,
+} from "./previews";
 import { setupAuth, compareHash } from "./auth";
-import { insertDocumentSchema } from "@shared/schema";
-
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
-  },
-});
+import { fromZodError } from "zod-validation-error";
+import {
+  updateAccessRequestSchema,
+  downloadFormats,
+  createAccessRequestSchema,
+  createShareLinkSchema,
+  createFolderSchema,
+  updateFolderSchema,
+  createUploadSchema,
+  listDocumentsQuerySchema,
+  searchQuerySchema,
+  updateDocumentSchema,
+  type AccessRequestReceipt,
+  type AccessRequestWithDocuments,
+  type Block,
+  type DownloadFormat,
+  type SharedLinkView,
+  type TrashedDocument,
+} from "@shared/schema";
+import {
+  DEFAULT_SHARE_LINK_TTL_HOURS,
+  generateShareToken,
+  resolveShareLink,
+  shareLinkCovers,
+  shareLinkScope,
+} from "./share-links";
+import { getGrantedDocumentIds, resolveDocumentAccess } from "./document-access";
+import { publish, setupEvents } from "./events";
+import { attemptPin, PinAttemptError, startPinAttemptCleanup } from "./pin-attempts";
+import { rateLimit, rateLimitStore, startRateLimitCleanup } from "./rate-limit";
+import {
+  convertDocument,
+  formatContentTypes,
+  getConversionCapabilities,
+  UnsupportedConversionError,
+} from "./converters";
+import {
+  AccessRequestTransitionError,
+  canReceiveAccessRequest,
+  generateReceiptToken,
+  startAccessRequestExpiry,
+  transitionAccessRequest,
+} from "./access-requests";
 
 export function registerRoutes(app: Express): Server {
-  setupAuth(app);
+  const sessionMiddleware = setupAuth(app);
+
+  // Share links: opaque, expiring tokens that stand in for the owner in QR codes
+  app.post("/api/share-links", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const parsed = createShareLinkSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+
+    const {
+      documentIds,
+      folderId,
+      filter,
+      pinnedVersions = [],
+      expiresInHours = DEFAULT_SHARE_LINK_TTL_HOURS,
+    } = parsed.data;
+    if (documentIds) {
+      const ownedIds = new Set((await storage.getDocuments(req.user.id)).map((doc) => doc.id));
+      if (documentIds.some((id) => !ownedIds.has(id))) {
+        return res.status(400).json({ message: "Unknown document in selection" });
+      }
+    }
+    if (folderId) {
+      const folder = await storage.getFolder(folderId);
+      if (!folder || folder.userId !== req.user.id) {
+        return res.status(400).json({ message: "Unknown folder" });
+      }
+    }
+
+    // A pinned version must exist and belong to a document the link shares
+    for (const pin of pinnedVersions) {
+      const document = await storage.getDocument(pin.documentId);
+      if (
+        !document ||
+        document.userId !== req.user.id ||
+        (documentIds && !documentIds.includes(pin.documentId)) ||
+        (pin.version !== document.version &&
+          !(await storage.getDocumentVersion(document, pin.version)))
+      ) {
+        return res.status(400).json({ message: "Unknown document version in selection" });
+      }
+    }
+
+    const link = await storage.createShareLink({
+      userId: req.user.id,
+      token: generateShareToken(),
+      documentIds: documentIds ?? null,
+      folderId: folderId ?? null,
+      filter: filter ?? null,
+      pinnedVersions,
+      expiresAt: new Date(Date.now() + expiresInHours * 60 * 60 * 1000),
+    });
+
+    res.status(201).json(link);
+  });
+
+  app.get("/api/share-links", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    const links = await storage.getShareLinks(req.user.id);
+    res.json(links);
+  });
+
+  app.post("/api/share-links/:id/revoke", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
 
-  // Add PIN verification endpoint
-  app.post("/api/verify-pin/:userId", async (req, res) => {
+    const link = await storage.getShareLink(Number(req.params.id));
+    if (!link || link.userId !== req.user.id) {
+      return res.sendStatus(404);
+    }
+
+    const updatedLink = await storage.updateShareLink(link.id, { revoked: true });
+    res.json(updatedLink);
+  });
+
+  // The end-to-end encrypted documents a link shares right now, at the versions
+  // it serves, so the owner can put their keys in the link
+  app.get("/api/share-links/:id/end-to-end-documents", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    try {
+      const link = await storage.getShareLink(Number(req.params.id));
+      if (!link || link.userId !== req.user.id) {
+        return res.sendStatus(404);
+      }
+
+      // A pinned version may be encrypted when the latest one is not
+      const candidates = (await storage.getDocuments(req.user.id)).filter(
+        (doc) => doc.endToEnd || link.pinnedVersions.some((pin) => pin.documentId === doc.id),
+      );
+      const covered = [];
+      for (const document of candidates) {
+        if (await shareLinkCovers(link, document)) covered.push(document);
+      }
+      const pinned = await pinMetadataVersions(covered, link.pinnedVersions);
+      res.json(pinned.filter((doc) => doc.endToEnd));
+    } catch (error) {
+      console.error("Error listing encrypted link documents:", error);
+      res.status(500).json({ message: "Failed to list encrypted documents" });
+    }
+  });
+
+  // Resolve a share token into the owner's shared documents (without their contents)
+  app.get("/api/shared/:token", async (req, res) => {
+    const query = listDocumentsQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: fromZodError(query.error).toString() });
+    }
+
+    try {
+      const link = await resolveShareLink(req.params.token);
+      if (!link) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+
+      const owner = await storage.getUser(link.userId);
+      if (!owner) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+
+      const view: SharedLinkView = {
+        ...(await applyPinnedVersions(
+          await storage.listDocuments(link.userId, query.data, await shareLinkScope(link)),
+          link.pinnedVersions,
+        )),
+        owner: { username: owner.username },
+        expiresAt: link.expiresAt.toISOString(),
+        grantedDocumentIds: await getGrantedDocumentIds(req, link.userId),
+      };
+      res.json(view);
+    } catch (error) {
+      console.error("Error resolving share link:", error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  });
+
+  // PIN verification for owners opening their own share link
+  app.post("/api/shared/:token/verify-pin", async (req, res) => {
     const { pin } = req.body;
-    const userId = Number(req.params.userId);
 
     try {
-      const user = await storage.getUser(userId);
+      const link = await resolveShareLink(req.params.token);
+      if (!link) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+
+      const user = await storage.getUser(link.userId);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
 
-      const isValid = await compareHash(pin, user.pin);
+      const isValid = await attemptPin(user.id, req.ip ?? "unknown", () =>
+        compareHash(pin, user.pin),
+      );
       if (isValid) {
-        // Store verified userId in session
-        req.session.verifiedUserId = userId;
+        // Remember the verified link, not the owner, so access stays within its scope
+        const verified = req.session.verifiedShareLinks ?? [];
+        if (!verified.includes(link.id)) {
+          req.session.verifiedShareLinks = [...verified, link.id];
+        }
       }
       res.json({ isValid });
     } catch (error) {
+      if (error instanceof PinAttemptError) {
+        res.set("Retry-After", String(error.retryAfterSeconds));
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("PIN verification error:", error);
       res.status(500).json({ message: "Failed to verify PIN" });
     }
   });
 
-  // Add endpoint to get user's documents
-  app.get("/api/documents/:userId", async (req, res) => {
-    const userId = Number(req.params.userId);
-    try {
-      const documents = await storage.getDocuments(userId);
-      res.json(documents);
-    } catch (error) {
-      console.error("Error fetching documents:", error);
-      res.status(500).json({ message: "Failed to fetch documents" });
-    }
-  });
-
   // Document routes
-  app.post("/api/documents", upload.single("file"), async (req, res) => {
+  app.post("/api/documents", uploadSingle("file"), async (req, res) => {
     console.log("File upload request received", {
       user: req.user?.id,
       file: req.file ? {
@@ -64,75 +261,281 @@ export function registerRoutes(app: Express): Server {
       headers: req.headers['content-type']
     });
 
-    if (!req.user) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
     if (!req.file) {
       console.log("No file in request");
       return res.status(400).json({ message: "No file uploaded" });
     }
 
+    // The bytes are already in the blob store; drop them if no document is created
+    const { blobKey, size, checksum } = req.file;
+    const discardFile = () =>
+      storage.deleteContent(blobKey).catch((error) => {
+        console.error("Error discarding upload:", error);
+      });
+
     if (!req.body.name) {
+      await discardFile();
       return res.status(400).json({ message: "Document name is required" });
     }
 
-    try {
-      // Check if a document with the same name exists for this user
-      const existingDocs = await storage.getDocuments(req.user.id);
-      if (existingDocs.some((doc) => doc.name === req.body.name)) {
-        return res.status(400).json({ message: "Document with this name already exists" });
+    const folderId = req.body.folderId ? Number(req.body.folderId) : null;
+    if (folderId !== null) {
+      const folder = await storage.getFolder(folderId);
+      if (!folder || folder.userId !== req.user!.id) {
+        await discardFile();
+        return res.status(400).json({ message: "Unknown folder" });
       }
+    }
+
+    try {
+      // An existing document with this name gets the file as its next version
+      const { document, created } = await saveUploadedDocument(
+        req.user!.id,
+        {
+          userId: req.user!.id,
+          name: req.body.name,
+          contentType: req.file.mimetype,
+          folderId,
+        },
+        { blobKey, size, checksum, endToEnd: false },
+      );
 
-      const document = await storage.createDocument({
-        userId: req.user.id,
-        name: req.body.name,
-        content: req.file.buffer.toString("base64"),
-        contentType: req.file.mimetype,
+      console.log(created ? "Document created successfully" : "Document version added", {
+        id: document.id,
+        version: document.version,
       });
+      res.status(created ? 201 : 200).json(document);
+    } catch (error) {
+      console.error("Error creating document:", error);
+      await discardFile();
+      res.status(500).json({ message: "Failed to upload document" });
+    }
+  });
+
+  app.get("/api/upload-limits", (_req, res) => {
+    res.json({ maxFileSize: MAX_UPLOAD_BYTES, allowedTypes: ALLOWED_UPLOAD_TYPES });
+  });
 
+  // Resumable uploads, for large files over unreliable connections
+  app.get("/api/uploads", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const uploads = await storage.getUploadSessions(req.user.id);
+    res.json(uploads.map(toUploadProgress));
+  });
+
+  app.post("/api/uploads", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const result = createUploadSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ message: fromZodError(result.error).toString() });
+    }
+
+    try {
+      const upload = await startUpload(req.user.id, result.data);
+      res.status(201).json(toUploadProgress(upload));
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error starting upload:", error);
+      res.status(500).json({ message: "Failed to start upload" });
+    }
+  });
+
+  app.get("/api/uploads/:id", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const upload = await storage.getUploadSession(parseInt(req.params.id));
+    if (!upload || upload.expiresAt <= new Date()) return res.sendStatus(404);
+    if (upload.userId !== req.user.id) return res.sendStatus(403);
+
+    res.json(toUploadProgress(upload));
+  });
+
+  // The request body is the raw chunk; Upload-Offset says where it starts
+  app.put("/api/uploads/:id", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const upload = await storage.getUploadSession(parseInt(req.params.id));
+    if (!upload || upload.expiresAt <= new Date()) return res.sendStatus(404);
+    if (upload.userId !== req.user.id) return res.sendStatus(403);
+
+    const offset = Number(req.headers["upload-offset"]);
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ message: "Upload-Offset header is required" });
+    }
+
+    try {
+      const updated = await appendChunk(upload, offset, req);
+      res.json(toUploadProgress(updated));
+    } catch (error) {
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error storing upload chunk:", error);
+      res.status(500).json({ message: "Failed to store chunk" });
+    }
+  });
+
+  app.post("/api/uploads/:id/complete", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const upload = await storage.getUploadSession(parseInt(req.params.id));
+    if (!upload || upload.expiresAt <= new Date()) return res.sendStatus(404);
+    if (upload.userId !== req.user.id) return res.sendStatus(403);
+
+    try {
+      const document = await completeUpload(upload);
       console.log("Document created successfully", { id: document.id });
       res.status(201).json(document);
     } catch (error) {
-      console.error("Error creating document:", error);
-      res.status(500).json({ message: "Failed to upload document" });
+      if (error instanceof UploadError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error completing upload:", error);
+      res.status(500).json({ message: "Failed to complete upload" });
     }
   });
 
+  app.delete("/api/uploads/:id", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const upload = await storage.getUploadSession(parseInt(req.params.id));
+    if (!upload) return res.sendStatus(404);
+    if (upload.userId !== req.user.id) return res.sendStatus(403);
+
+    await discardUpload(upload);
+    res.sendStatus(204);
+  });
+
+  // Metadata only; bytes are served by the view and download endpoints
   app.get("/api/documents", async (req, res) => {
     if (!req.user) return res.sendStatus(401);
-    const documents = await storage.getDocuments(req.user.id);
-    res.json(documents);
+
+    const query = listDocumentsQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: fromZodError(query.error).toString() });
+    }
+
+    // Filtering by labels searches every folder, not just the one being viewed
+    const { tags, fields } = query.data;
+    const scope: DocumentScope =
+      tags?.length || fields?.length
+        ? { filter: { tags, fields } }
+        : { folderId: query.data.folderId ?? null };
+
+    const page = await storage.listDocuments(req.user.id, query.data, scope);
+    res.json(page);
+  });
+
+  // Full-text search over the user's document names, tags and extracted text
+  app.get("/api/search", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const query = searchQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: fromZodError(query.error).toString() });
+    }
+
+    try {
+      res.json(await storage.searchDocuments(req.user.id, query.data));
+    } catch (error) {
+      console.error("Error searching documents:", error);
+      res.status(500).json({ message: "Search failed" });
+    }
   });
 
   app.patch("/api/documents/:id", async (req, res) => {
     if (!req.user) return res.sendStatus(401);
 
     const document = await storage.getDocument(Number(req.params.id));
-    if (!document || document.userId !== req.user.id) {
+    if (!document || document.userId !== req.user.id || document.deletedAt) {
       return res.sendStatus(404);
     }
 
+    const parsed = updateDocumentSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    const { name, folderId, tags, customFields } = parsed.data;
+
     // Check if new name conflicts with existing documents
-    if (req.body.name && req.body.name !== document.name) {
+    if (name && name !== document.name) {
       const existingDocs = await storage.getDocuments(req.user.id);
-      if (existingDocs.some((doc) => doc.name === req.body.name)) {
+      if (existingDocs.some((doc) => doc.name === name)) {
         return res.status(400).json({ message: "Document with this name already exists" });
       }
     }
 
+    // Moving: folderId null puts the document at the top level
+    if (folderId) {
+      const folder = await storage.getFolder(folderId);
+      if (!folder || folder.userId !== req.user.id) {
+        return res.status(400).json({ message: "Unknown folder" });
+      }
+    }
+
     const updatedDoc = await storage.updateDocument(document.id, {
-      name: req.body.name,
+      name,
+      folderId,
+      tags,
+      customFields,
     });
 
     res.json(updatedDoc);
   });
 
+  // Moves the document to the trash; it is only removed for good when purged
   app.delete("/api/documents/:id", async (req, res) => {
     if (!req.user) return res.sendStatus(401);
 
     const document = await storage.getDocument(Number(req.params.id));
-    if (!document || document.userId !== req.user.id) {
+    if (!document || document.userId !== req.user.id || document.deletedAt) {
+      return res.sendStatus(404);
+    }
+
+    await storage.trashDocument(document.id);
+    res.sendStatus(204);
+  });
+
+  app.get("/api/trash", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const trashed = await storage.getTrashedDocuments(req.user.id);
+    const view: TrashedDocument[] = trashed.map((doc) => ({
+      ...doc,
+      deletedAt: doc.deletedAt.toISOString(),
+      purgeAt: purgeDate(doc.deletedAt).toISOString(),
+    }));
+    res.json(view);
+  });
+
+  app.post("/api/trash/:id/restore", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const document = await storage.getDocument(Number(req.params.id));
+    if (!document || document.userId !== req.user.id || !document.deletedAt) {
+      return res.sendStatus(404);
+    }
+
+    // The name may have been reused while the document was in the trash
+    if (await storage.getDocumentByName(req.user.id, document.name)) {
+      return res.status(409).json({
+        message: `Another document is now named "${document.name}". Rename it before restoring this one.`,
+      });
+    }
+
+    const restoredDoc = await storage.restoreDocument(document.id);
+    res.json(restoredDoc);
+  });
+
+  app.delete("/api/trash/:id", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const document = await storage.getDocument(Number(req.params.id));
+    if (!document || document.userId !== req.user.id || !document.deletedAt) {
       return res.sendStatus(404);
     }
 
@@ -140,82 +543,566 @@ export function registerRoutes(app: Express): Server {
     res.sendStatus(204);
   });
 
+  // Empty trash
+  app.delete("/api/trash", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    try {
+      for (const document of await storage.getTrashedDocuments(req.user.id)) {
+        await storage.deleteDocument(document.id);
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error emptying trash:", error);
+      res.status(500).json({ message: "Failed to empty trash" });
+    }
+  });
+
+  app.get("/api/documents/:id/versions", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const document = await storage.getDocument(Number(req.params.id));
+    if (!document || document.userId !== req.user.id || document.deletedAt) {
+      return res.sendStatus(404);
+    }
+
+    const versions = await storage.getDocumentVersions(document);
+    res.json(versions);
+  });
+
+  // Brings an old version back by adding it again as the newest one
+  app.post("/api/documents/:id/versions/:version/restore", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const document = await storage.getDocument(Number(req.params.id));
+    if (!document || document.userId !== req.user.id || document.deletedAt) {
+      return res.sendStatus(404);
+    }
+
+    const version = await storage.getDocumentVersion(document, Number(req.params.version));
+    if (!version) {
+      return res.status(404).json({ message: "Version not found" });
+    }
+    if (version.version === document.version) {
+      return res.status(400).json({ message: "This is already the current version" });
+    }
+
+    try {
+      const { blobKey, size, checksum, endToEnd } = version;
+      const updatedDoc = await storage.addDocumentVersion(
+        document,
+        { blobKey, size, checksum, endToEnd },
+        version.contentType,
+        req.user.id,
+        version.version,
+      );
+      queueDocumentIndexing(updatedDoc);
+      requestPreviews();
+      res.json(updatedDoc);
+    } catch (error) {
+      console.error("Error restoring document version:", error);
+      res.status(500).json({ message: "Failed to restore version" });
+    }
+  });
+
+  app.get("/api/folders", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    const userFolders = await storage.getFolders(req.user.id);
+    res.json(userFolders);
+  });
+
+  app.post("/api/folders", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const parsed = createFolderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    const { name, parentId } = parsed.data;
+
+    const userFolders = await storage.getFolders(req.user.id);
+    if (parentId !== null && !userFolders.some((folder) => folder.id === parentId)) {
+      return res.status(400).json({ message: "Unknown parent folder" });
+    }
+    if (userFolders.some((folder) => folder.parentId === parentId && folder.name === name)) {
+      return res.status(400).json({ message: "A folder with this name already exists here" });
+    }
+
+    const folder = await storage.createFolder({ userId: req.user.id, parentId, name });
+    res.status(201).json(folder);
+  });
+
+  // Rename and/or move a folder
+  app.patch("/api/folders/:id", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const folder = await storage.getFolder(Number(req.params.id));
+    if (!folder || folder.userId !== req.user.id) {
+      return res.sendStatus(404);
+    }
+
+    const parsed = updateFolderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    const { name = folder.name, parentId = folder.parentId } = parsed.data;
+
+    const userFolders = await storage.getFolders(req.user.id);
+    if (parentId !== null) {
+      if (!userFolders.some((candidate) => candidate.id === parentId)) {
+        return res.status(400).json({ message: "Unknown parent folder" });
+      }
+      if ((await storage.getFolderSubtreeIds(folder.id)).includes(parentId)) {
+        return res.status(400).json({
+          message: "A folder cannot be moved into itself or one of its subfolders",
+        });
+      }
+    }
+    if (
+      userFolders.some(
+        (candidate) =>
+          candidate.id !== folder.id && candidate.parentId === parentId && candidate.name === name,
+      )
+    ) {
+      return res.status(400).json({ message: "A folder with this name already exists here" });
+    }
+
+    const updatedFolder = await storage.updateFolder(folder.id, { name, parentId });
+    res.json(updatedFolder);
+  });
+
+  // Deletes the folder and its subfolders; their documents go to the trash
+  app.delete("/api/folders/:id", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const folder = await storage.getFolder(Number(req.params.id));
+    if (!folder || folder.userId !== req.user.id) {
+      return res.sendStatus(404);
+    }
+
+    try {
+      await storage.deleteFolder(folder.id);
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error deleting folder:", error);
+      res.status(500).json({ message: "Failed to delete folder" });
+    }
+  });
+
   // Add document view endpoint
   app.get("/api/documents/:id/view", async (req, res) => {
     const document = await storage.getDocument(Number(req.params.id));
 
-    // Allow access if user is authenticated OR has verified PIN
-    const hasAccess = req.user?.id === document?.userId ||
-      req.session.verifiedUserId === document?.userId;
+    // Allow access to the owner, through an approved request's grant,
+    // or through a PIN-verified share link covering it
+    const access = document && (await resolveDocumentAccess(req, document));
+    if (!document || !access) {
+      return res.status(401).json({ message: "Unauthorized access" });
+    }
+    const content = await resolveDocumentVersion(req, document, access);
+    if (!content) {
+      return res.status(404).json({ message: "Version not found" });
+    }
+    // Range requests are follow-ups to an opening we already reported, and
+    // HEAD requests fetch no content
+    if (access.via === "grant" && !req.headers.range && req.method !== "HEAD") {
+      publish(document.userId, {
+        type: "document.viewed",
+        documentId: document.id,
+        documentName: document.name,
+        accessRequestId: access.grant.accessRequestId,
+      });
+    }
+
+    try {
+      await sendDocumentContent(req, res, content);
+    } catch (error) {
+      console.error("Error streaming document:", error);
+      if (!res.headersSent) res.status(500).json({ message: "Failed to read document" });
+      else res.destroy();
+    }
+  });
+
+  // Thumbnails are of the latest version, so links pinned to an older one get none
+  app.get("/api/documents/:id/thumbnail", async (req, res) => {
+    const document = await storage.getDocument(Number(req.params.id));
+    const access = document && (await resolveDocumentAccess(req, document));
+    if (!document || !access) {
+      return res.status(401).json({ message: "Unauthorized access" });
+    }
+    const content = await resolveDocumentVersion(req, document, access);
+    const preview = content?.version === document.version && (await storage.getDocumentPreview(document));
+    if (!preview || !preview.thumbnailKey) return res.sendStatus(404);
+
+    try {
+      const thumbnail = await storage.openThumbnail(preview);
+      res.setHeader("Content-Type", "image/webp");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=86400");
+      await pipeline(thumbnail, res);
+    } catch (error) {
+      console.error("Error streaming thumbnail:", error);
+      if (!res.headersSent) res.status(500).json({ message: "Failed to read thumbnail" });
+      else res.destroy();
+    }
+  });
 
-    if (!document || !hasAccess) {
+  // Word documents rendered as HTML for the in-app viewer, which browsers
+  // cannot display from the view endpoint
+  app.get("/api/documents/:id/preview", async (req, res) => {
+    const document = await storage.getDocument(Number(req.params.id));
+    const access = document && (await resolveDocumentAccess(req, document));
+    if (!document || !access) {
       return res.status(401).json({ message: "Unauthorized access" });
     }
+    const content = await resolveDocumentVersion(req, document, access);
+    if (!content) {
+      return res.status(404).json({ message: "Version not found" });
+    }
+    if (content.endToEnd) {
+      return res.status(415).json({ message: "End-to-end encrypted documents have no preview" });
+    }
+    if (content.contentType !== DOCX_CONTENT_TYPE) {
+      return res.status(415).json({ message: `No preview for ${content.contentType}` });
+    }
 
-    const buffer = Buffer.from(document.content, "base64");
-    res.setHeader("Content-Type", document.contentType);
-    res.send(buffer);
+    try {
+      const html = await renderDocxHtml(await storage.getDocumentContent(content));
+      res.json({ html });
+    } catch (error) {
+      console.error("Error rendering document preview:", error);
+      res.status(500).json({ message: "Failed to render preview" });
+    }
   });
 
-  // Update download endpoint to support verified PIN users
+  // Update download endpoint to support verified share links
   app.get("/api/documents/:id/download", async (req, res) => {
     const document = await storage.getDocument(Number(req.params.id));
 
-    // Allow access if user is authenticated OR has verified PIN
-    const hasAccess = req.user?.id === document?.userId ||
-      req.session.verifiedUserId === document?.userId;
-
-    if (!document || !hasAccess) {
+    // Allow access to the owner, through an approved request's grant,
+    // or through a PIN-verified share link covering it
+    const access = document && (await resolveDocumentAccess(req, document));
+    if (!document || !access) {
       return res.status(401).json({ message: "Unauthorized access" });
     }
+    const content = await resolveDocumentVersion(req, document, access);
+    if (!content) {
+      return res.status(404).json({ message: "Version not found" });
+    }
+    // Range requests are follow-ups to an opening we already reported, and
+    // HEAD requests fetch no content
+    if (access.via === "grant" && !req.headers.range && req.method !== "HEAD") {
+      publish(document.userId, {
+        type: "document.viewed",
+        documentId: document.id,
+        documentName: document.name,
+        accessRequestId: access.grant.accessRequestId,
+      });
+    }
 
-    const buffer = Buffer.from(document.content, "base64");
-    res.setHeader("Content-Type", document.contentType);
-    res.setHeader(
-      "Content-Disposition",
-      `attachment; filename="${document.name}"`,
-    );
+    const format = typeof req.query.format === "string" ? req.query.format : "original";
+    if (!downloadFormats.includes(format as DownloadFormat)) {
+      return res.status(415).json({ message: `Unknown format: ${format}` });
+    }
+
+    if (format === "original") {
+      res.setHeader("Content-Disposition", attachmentDisposition(document.name));
+      try {
+        await sendDocumentContent(req, res, content);
+      } catch (error) {
+        console.error("Error streaming document:", error);
+        if (!res.headersSent) res.status(500).json({ message: "Failed to read document" });
+        else res.destroy();
+      }
+      return;
+    }
+
+    if (content.endToEnd) {
+      return res.status(415).json({ message: "End-to-end encrypted documents cannot be converted" });
+    }
+
+    // Conversions need the whole file, so these are built in memory
+    const target = format as Exclude<DownloadFormat, "original">;
+    let buffer: Buffer;
+    try {
+      buffer = await convertDocument(
+        await storage.getDocumentContent(content),
+        content.contentType,
+        target,
+      );
+    } catch (error) {
+      if (error instanceof UnsupportedConversionError) {
+        return res.status(415).json({ message: error.message });
+      }
+      console.error("Error converting document:", error);
+      return res.status(500).json({ message: "Failed to convert document" });
+    }
+
+    const filename = `${document.name.replace(/\.[^.]+$/, "")}.${target}`;
+    res.setHeader("Content-Type", formatContentTypes[target]);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Content-Disposition", attachmentDisposition(filename));
     res.send(buffer);
   });
 
+  // Which formats documents can be converted to on download
+  app.get("/api/conversions", (_req, res) => {
+    res.json(getConversionCapabilities());
+  });
+
 
   // Access request routes
-  app.post("/api/access-requests", async (req, res) => {
-    if (!req.body.userId || !req.body.requestedDocuments) {
-      return res.sendStatus(400);
+  app.post("/api/access-requests", rateLimit("access-requests"), async (req, res) => {
+    const parsed = createAccessRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    const { token, requestedDocuments, name, email, message, location } = parsed.data;
+
+    const link = await resolveShareLink(token);
+    if (!link) {
+      return res.status(404).json({ message: "This link is invalid or has expired" });
+    }
+
+    // Only documents the link actually exposes can be requested
+    const ownerDocuments = await storage.getDocuments(link.userId);
+    for (const id of requestedDocuments) {
+      const document = ownerDocuments.find((doc) => doc.id === id);
+      if (!document || !(await shareLinkCovers(link, document))) {
+        return res.status(400).json({ message: "Requested document is not part of this link" });
+      }
+    }
+
+    if (!(await canReceiveAccessRequest(link.userId))) {
+      return res.status(429).json({
+        message: "The owner has too many pending requests. Please try again later.",
+      });
     }
 
     const request = await storage.createAccessRequest({
-      userId: req.body.userId,
-      requestedDocuments: req.body.requestedDocuments,
+      userId: link.userId,
+      requestedDocuments,
       requesterInfo: {
         deviceInfo: req.headers["user-agent"] || "Unknown device",
-        location: req.body.location,
+        location,
         timestamp: new Date().toISOString(),
+        name,
+        email,
+        message,
       },
       status: "pending",
+      approvedDocuments: null,
+      requesterSessionId: req.sessionID,
+      receiptToken: generateReceiptToken(),
+      pinnedVersions: link.pinnedVersions,
     });
 
-    res.status(201).json(request);
+    // Touch the session so it is persisted and the requester keeps the same ID
+    req.session.accessRequestIds = [...(req.session.accessRequestIds ?? []), request.id];
+
+    publish(link.userId, {
+      type: "access-request.created",
+      accessRequestId: request.id,
+      requesterName: name,
+      documentCount: requestedDocuments.length,
+    });
+
+    res.status(201).json({
+      id: request.id,
+      status: request.status,
+      receiptToken: request.receiptToken,
+    });
+  });
+
+  // Lets a requester check on their request, and reach the documents once approved
+  app.get("/api/receipts/:receiptToken", async (req, res) => {
+    try {
+      const request = await storage.getAccessRequestByReceipt(req.params.receiptToken);
+      const owner = request && (await storage.getUser(request.userId));
+      if (!request || !owner) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const ownerDocuments = await storage.getDocuments(request.userId);
+      const grants =
+        request.status === "approved"
+          ? await storage.getActiveAccessGrantsForRequest(request.id)
+          : [];
+      const grantedIds = new Set(grants.flatMap((grant) => grant.documentIds));
+      const lastEvent = (await storage.getAccessRequestEvents(request.id)).at(-1);
+
+      const receipt: AccessRequestReceipt = {
+        status: request.status,
+        createdAt: request.createdAt.toISOString(),
+        owner: { username: owner.username },
+        requestedDocuments: ownerDocuments
+          .filter((doc) => request.requestedDocuments.includes(doc.id))
+          .map((doc) => ({ id: doc.id, name: doc.name })),
+        grantedDocuments: await pinMetadataVersions(
+          ownerDocuments.filter((doc) => grantedIds.has(doc.id)),
+          request.pinnedVersions,
+        ),
+        grantExpiresAt: grants.length
+          ? new Date(Math.max(...grants.map((grant) => grant.expiresAt.getTime()))).toISOString()
+          : null,
+        reason: lastEvent?.reason ?? null,
+      };
+      res.json(receipt);
+    } catch (error) {
+      console.error("Error fetching receipt:", error);
+      res.status(500).json({ message: "Failed to fetch request status" });
+    }
   });
 
   app.get("/api/access-requests", async (req, res) => {
     if (!req.user) return res.sendStatus(401);
 
     const requests = await storage.getAccessRequests(req.user.id);
-    res.json(requests);
+    const names = new Map(
+      (await storage.getDocuments(req.user.id)).map((doc) => [doc.id, doc.name]),
+    );
+
+    const withDocuments: AccessRequestWithDocuments[] = requests.map((request) => ({
+      ...request,
+      documents: request.requestedDocuments.map((id) => ({
+        id,
+        name: names.get(id) ?? "Deleted document",
+      })),
+    }));
+    res.json(withDocuments);
   });
 
   app.patch("/api/access-requests/:id", async (req, res) => {
     if (!req.user) return res.sendStatus(401);
 
-    const request = await storage.updateAccessRequest(Number(req.params.id), {
-      status: req.body.status,
-    });
+    const existing = await storage.getAccessRequest(Number(req.params.id));
+    if (!existing) {
+      return res.status(404).json({ message: "Access request not found" });
+    }
+    if (existing.userId !== req.user.id) {
+      return res.status(403).json({ message: "You do not own this access request" });
+    }
+
+    const parsed = updateAccessRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
+    const { status, reason, documentIds, expiresInHours } = parsed.data;
+
+    try {
+      const request = await transitionAccessRequest(
+        existing,
+        status,
+        { actorType: "owner", actorId: req.user.id },
+        { reason: reason || undefined, documentIds, expiresInHours },
+      );
+      res.json(request);
+    } catch (error) {
+      if (error instanceof AccessRequestTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating access request:", error);
+      res.status(500).json({ message: "Failed to update access request" });
+    }
+  });
+
+  app.get("/api/access-requests/:id/history", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const request = await storage.getAccessRequest(Number(req.params.id));
+    if (!request) {
+      return res.status(404).json({ message: "Access request not found" });
+    }
+    if (request.userId !== req.user.id) {
+      return res.status(403).json({ message: "You do not own this access request" });
+    }
+
+    const events = await storage.getAccessRequestEvents(request.id);
+    res.json(events);
+  });
+
+  // Times PIN entry on the user's links locked out, until they dismiss them
+  app.get("/api/pin-lockouts", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+
+    const lockouts = await storage.getPinLockouts(req.user.id);
+    res.json(lockouts);
+  });
+
+  app.post("/api/pin-lockouts/:id/dismiss", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
 
-    res.json(request);
+    const dismissed = await storage.dismissPinLockout(Number(req.params.id), req.user.id);
+    if (!dismissed) {
+      return res.status(404).json({ message: "Lockout not found" });
+    }
+    res.sendStatus(204);
   });
 
+  // Admin routes: clients currently kept out by rate limits or PIN lockouts
+  app.get("/api/admin/blocks", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    if (!req.user.isAdmin) return res.sendStatus(403);
+
+    try {
+      const [rateLimited, pinLocked] = await Promise.all([
+        rateLimitStore.getBlocked(),
+        storage.getBlockedPinAttempts(),
+      ]);
+      const blocks: Block[] = [
+        ...rateLimited.map((window) => ({
+          kind: "rate-limit" as const,
+          key: window.key,
+          count: window.hits,
+          blockedUntil: window.windowEndsAt.toISOString(),
+        })),
+        ...pinLocked.map((attempt) => ({
+          kind: "pin" as const,
+          key: attempt.key,
+          count: attempt.failures,
+          blockedUntil: attempt.blockedUntil!.toISOString(),
+        })),
+      ];
+      res.json(blocks);
+    } catch (error) {
+      console.error("Error fetching blocks:", error);
+      res.status(500).json({ message: "Failed to fetch blocks" });
+    }
+  });
+
+  // Lifts a block and forgets the key's count
+  app.delete("/api/admin/blocks/:kind/:key", async (req, res) => {
+    if (!req.user) return res.sendStatus(401);
+    if (!req.user.isAdmin) return res.sendStatus(403);
+
+    const { kind, key } = req.params;
+    if (kind !== "rate-limit" && kind !== "pin") {
+      return res.status(400).json({ message: "Unknown block kind" });
+    }
+
+    try {
+      const cleared =
+        kind === "rate-limit"
+          ? await rateLimitStore.clear(key)
+          : await storage.clearPinAttempts(key);
+      if (!cleared) {
+        return res.status(404).json({ message: "Block not found" });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      console.error("Error clearing block:", error);
+      res.status(500).json({ message: "Failed to clear block" });
+    }
+  });
+
+  startAccessRequestExpiry();
+  startUploadExpiry();
+  startTrashPurge();
+  startPreviewGeneration();
+  startPinAttemptCleanup();
+  startRateLimitCleanup();
+
   const httpServer = createServer(app);
+  setupEvents(httpServer, sessionMiddleware);
   return httpServer;
 }
\ No newline at end of file
@@ -0,0 +1,31 @@
+// Extracts searchable text from documents uploaded before search existed, or
+// whose extraction did not finish. Safe to re-run: documents already indexed
+// at their current version are skipped.
+//
+//   npm run search:index
+import { storage } from "../storage";
+import { pool } from "../db";
+import { canExtractText, indexDocumentText } from "../search";
+
+async function main() {
+  const pending = (await storage.getDocumentsWithoutText()).filter((document) =>
+    canExtractText(document.contentType),
+  );
+  console.log(`Indexing ${pending.length} document(s) for search`);
+
+  let failed = 0;
+  for (const document of pending) {
+    try {
+      await indexDocumentText(document);
+      console.log(`  #${document.id} ${document.name}`);
+    } catch (error) {
+      failed++;
+      console.error(`  #${document.id} ${document.name} failed:`, error);
+    }
+  }
+
+  console.log(failed ? `Done with ${failed} failure(s)` : "Done");
+  process.exitCode = failed ? 1 : 0;
+}
+
+main().finally(() => pool.end());
@@ -0,0 +1,47 @@
+// Re-wraps encryption keys without touching blob contents.
+//
+//   npm run keys:rotate                  re-wrap user keys with the current master key
+//   npm run keys:rotate -- --user-keys   also give every user a new key and
+//                                        re-wrap their data keys with it
+//
+// To retire a master key, put a new one first in ENCRYPTION_MASTER_KEYS, run
+// this, then remove the old one. Safe to re-run.
+import { storage } from "../storage";
+import { pool } from "../db";
+import { currentMasterKeyId } from "../encryption";
+
+async function main() {
+  const current = currentMasterKeyId();
+  let failed = 0;
+
+  const stale = await storage.getUserKeysToRewrap();
+  console.log(`Re-wrapping ${stale.length} user key(s) with master key ${current}`);
+  for (const { userId, masterKeyId } of stale) {
+    try {
+      await storage.rewrapUserKey(userId);
+      console.log(`  user #${userId}: ${masterKeyId} -> ${current}`);
+    } catch (error) {
+      failed++;
+      console.error(`  user #${userId} failed:`, error);
+    }
+  }
+
+  if (process.argv.includes("--user-keys")) {
+    const userIds = await storage.getUserIdsWithKeys();
+    console.log(`Rotating ${userIds.length} user key(s)`);
+    for (const userId of userIds) {
+      try {
+        const count = await storage.rotateUserKey(userId);
+        console.log(`  user #${userId}: re-wrapped ${count} data key(s)`);
+      } catch (error) {
+        failed++;
+        console.error(`  user #${userId} failed:`, error);
+      }
+    }
+  }
+
+  console.log(failed ? `Done with ${failed} failure(s)` : "Done");
+  process.exitCode = failed ? 1 : 0;
+}
+
+main().finally(() => pool.end());
@@ -0,0 +1,74 @@
+import mammoth from "mammoth";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import type { Document } from "@shared/schema";
+import { storage } from "./storage";
+
+// Larger files are searchable by name and tags only
+const MAX_EXTRACT_BYTES = Number(process.env.SEARCH_EXTRACT_MAX_BYTES) || 50 * 1024 * 1024;
+// Postgres caps a tsvector at 1MB; this much text stays well under it
+const MAX_TEXT_CHARS = 200_000;
+
+async function pdfText(input: Buffer) {
+  const pdf = await getDocument({
+    data: new Uint8Array(input),
+    isEvalSupported: false,
+    disableFontFace: true,
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+    let length = 0;
+    for (let number = 1; number <= pdf.numPages && length < MAX_TEXT_CHARS; number++) {
+      const page = await pdf.getPage(number);
+      const { items } = await page.getTextContent();
+      const text = items
+        .map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : " ") : ""))
+        .join("");
+      pages.push(text);
+      length += text.length;
+    }
+    return pages.join("\n");
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+const extractors: Record<string, (input: Buffer) => Promise<string>> = {
+  "text/plain": async (input) => input.toString("utf8"),
+  "text/markdown": async (input) => input.toString("utf8"),
+  "application/pdf": pdfText,
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": async (input) =>
+    (await mammoth.extractRawText({ buffer: input })).value,
+};
+
+export function canExtractText(contentType: string) {
+  return contentType in extractors;
+}
+
+export async function extractText(input: Buffer, contentType: string) {
+  const extract = extractors[contentType];
+  if (!extract) throw new Error(`Cannot extract text from ${contentType}`);
+  return (await extract(input)).replace(/\0/g, "");
+}
+
+// Stores the text of the document's current version for search. Documents
+// without an extractor, too large to extract, or encrypted end to end are left
+// to name and tags.
+export async function indexDocumentText(document: Document) {
+  if (document.endToEnd) return;
+  if (!canExtractText(document.contentType) || (document.size ?? 0) > MAX_EXTRACT_BYTES) return;
+
+  const text = await extractText(await storage.getDocumentContent(document), document.contentType);
+  await storage.saveDocumentText(document, text.slice(0, MAX_TEXT_CHARS));
+}
+
+// Extraction runs one document at a time, after the upload has been answered
+let indexing = Promise.resolve();
+
+export function queueDocumentIndexing(document: Document) {
+  indexing = indexing.then(() =>
+    indexDocumentText(document).catch((error) => {
+      console.error(`Text extraction for document ${document.id} failed:`, error);
+    }),
+  );
+}
@@ -0,0 +1,35 @@
+import { randomBytes } from "crypto";
+import { storage, type DocumentScope } from "./storage";
+import type { DocumentMetadata, ShareLink } from "@shared/schema";
+
+export const DEFAULT_SHARE_LINK_TTL_HOURS = 24;
+
+// Tokens are random and opaque: nothing about the owner can be read from them
+export function generateShareToken() {
+  return randomBytes(24).toString("base64url");
+}
+
+export function isShareLinkActive(link: ShareLink, now = new Date()) {
+  return !link.revoked && link.expiresAt > now;
+}
+
+// The documents a link exposes, as a listing scope. Folder and filter links
+// follow the folder's contents and the documents' labels as they change.
+export async function shareLinkScope(link: ShareLink): Promise<DocumentScope> {
+  return {
+    documentIds: link.documentIds,
+    folderIds: link.folderId !== null ? await storage.getFolderSubtreeIds(link.folderId) : undefined,
+    filter: link.filter,
+  };
+}
+
+export async function shareLinkCovers(link: ShareLink, document: Pick<DocumentMetadata, "id">) {
+  return await storage.isDocumentInScope(link.userId, document.id, await shareLinkScope(link));
+}
+
+// Returns the link behind a token, or undefined if it is unknown, expired or revoked
+export async function resolveShareLink(token: string): Promise<ShareLink | undefined> {
+  const link = await storage.getShareLinkByToken(token);
+  if (!link || !isShareLinkActive(link)) return undefined;
+  return link;
+}
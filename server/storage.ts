@@ -1,27 +1,296 @@
-import { users, documents, accessRequests } from "@shared/schema";
-import type { User, InsertUser, Document, AccessRequest } from "@shared/schema";
+import {
+  users,
+  documents,
+  documentVersions,
+  documentTexts,
+  documentPreviews,
+  accessRequests,
+  accessRequestEvents,
+  accessGrants,
+  shareLinks,
+  uploadSessions,
+  folders,
+  userKeys,
+  contentKeys,
+  pinAttempts,
+  pinLockouts,
+  rateLimits,
+  recoveryCodes,
+} from "@shared/schema";
+import type {
+  User,
+  InsertUser,
+  Document,
+  DocumentVersion,
+  DocumentVersionInfo,
+  AccessRequest,
+  AccessRequestEvent,
+  AccessRequestStatus,
+  AccessGrant,
+  ShareLink,
+  NewDocument,
+  DocumentMetadata,
+  DocumentPage,
+  DocumentPreview,
+  ListDocumentsQuery,
+  SearchQuery,
+  SearchResultPage,
+  HighlightedText,
+  UploadSession,
+  UserKey,
+  PinAttempt,
+  PinLockout,
+  RateLimit,
+  Folder,
+  DocumentFilter,
+  FieldCondition,
+} from "@shared/schema";
 import { db } from "./db";
-import { eq } from "drizzle-orm";
+import {
+  eq,
+  and,
+  or,
+  gt,
+  lt,
+  asc,
+  desc,
+  notExists,
+  isNull,
+  isNotNull,
+  inArray,
+  count,
+  sql,
+  type Column,
+  type SQL,
+} from "drizzle-orm";
 import connectPg from "connect-pg-simple";
 import session from "express-session";
 import { pool } from "./db";
+import { createHash, randomUUID } from "crypto";
+import { Readable, Transform } from "stream";
+import { buffer } from "stream/consumers";
+import { createBlobStore, type BlobStore, type ByteRange } from "./blob-store";
+import {
+  alignToBlock,
+  currentMasterKeyId,
+  decryptContent,
+  encryptContent,
+  generateIv,
+  generateKey,
+  unwrapKey,
+  unwrapUserKey,
+  wrapKey,
+  wrapUserKey,
+} from "./encryption";
 
 const PostgresSessionStore = connectPg(session);
 
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Where a document's bytes ended up, as recorded on its row, and whether they
+// were encrypted in the owner's browser before they got here
+export type StoredContent = { blobKey: string; size: number; checksum: string; endToEnd: boolean };
+
+// Narrows a document listing. `folderId` keeps the documents directly inside
+// one folder (null for the top level); `folderIds` those anywhere in a set of
+// folders; `documentIds` (null for no restriction) a fixed selection.
+export type DocumentScope = {
+  documentIds?: number[] | null;
+  folderId?: number | null;
+  folderIds?: number[];
+  filter?: DocumentFilter | null;
+};
+
+// SQL for one custom field condition. The CASE keeps the comparison away
+// from same-named fields of another type, so casts cannot fail.
+function fieldCondition({ key, type, op, value }: FieldCondition): SQL {
+  const field = sql`${documents.customFields} -> ${key}::text`;
+  const typed = (cast: SQL) =>
+    sql`case when ${field} ->> 'type' = ${type} then ${cast} end`;
+
+  switch (type) {
+    case "text":
+      return op === "eq"
+        ? sql`${typed(sql`${field} ->> 'value'`)} = ${value}`
+        : sql`position(lower(${value}::text) in lower(${typed(sql`${field} ->> 'value'`)})) > 0`;
+    case "date":
+    case "number": {
+      const column = typed(
+        type === "number" ? sql`(${field} ->> 'value')::numeric` : sql`${field} ->> 'value'`,
+      );
+      const operator = { eq: sql`=`, lt: sql`<`, gt: sql`>` }[op];
+      return sql`${column} ${operator} ${value}`;
+    }
+  }
+}
+
+// ts_headline wraps matches in these; control characters cannot clash with
+// document text the way markup could
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_STOP = "\u0003";
+const NAME_HEADLINE_OPTIONS = `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", HighlightAll=true`;
+const SNIPPET_HEADLINE_OPTIONS =
+  `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_STOP}", ` +
+  `MaxFragments=2, MinWords=8, MaxWords=20, FragmentDelimiter=" … "`;
+
+// Markers alternate start/stop, so every other piece between them is a match
+function toHighlightedText(headline: string): HighlightedText {
+  return headline
+    .split(new RegExp(`${HIGHLIGHT_START}|${HIGHLIGHT_STOP}`))
+    .map((text, index) => ({ text, match: index % 2 === 1 }))
+    .filter((part) => part.text);
+}
+
+// Columns list endpoints select, so document bytes never leave the database
+const documentMetadata = {
+  id: documents.id,
+  name: documents.name,
+  folderId: documents.folderId,
+  contentType: documents.contentType,
+  size: documents.size,
+  checksum: documents.checksum,
+  endToEnd: documents.endToEnd,
+  version: documents.version,
+  tags: documents.tags,
+  customFields: documents.customFields,
+  createdAt: documents.createdAt,
+  updatedAt: documents.updatedAt,
+};
+
 export interface IStorage {
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  enableTwoFactor(
+    userId: number,
+    totpSecret: string,
+    totpCounter: number,
+    recoveryCodeHashes: string[],
+  ): Promise<void>;
+  disableTwoFactor(userId: number): Promise<void>;
+  setEndToEndKeyCheck(userId: number, keyCheck: string): Promise<boolean>;
+  useTotpCounter(userId: number, counter: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
 
-  getDocuments(userId: number): Promise<Document[]>;
+  getDocuments(userId: number): Promise<DocumentMetadata[]>;
+  listDocuments(
+    userId: number,
+    query: ListDocumentsQuery,
+    scope?: DocumentScope,
+  ): Promise<DocumentPage>;
+  isDocumentInScope(userId: number, documentId: number, scope: DocumentScope): Promise<boolean>;
+  searchDocuments(userId: number, query: SearchQuery): Promise<SearchResultPage>;
   getDocument(id: number): Promise<Document | undefined>;
-  createDocument(document: Omit<Document, "id">): Promise<Document>;
+  getDocumentByName(userId: number, name: string): Promise<Document | undefined>;
+  writeContent(userId: number, data: Readable): Promise<StoredContent>;
+  combineContent(userId: number, blobKeys: string[]): Promise<StoredContent>;
+  deleteContent(blobKey: string): Promise<void>;
+  readContentHead(content: StoredContent, length: number): Promise<Buffer>;
+  getUserKeysToRewrap(): Promise<UserKey[]>;
+  rewrapUserKey(userId: number): Promise<void>;
+  getUserIdsWithKeys(): Promise<number[]>;
+  rotateUserKey(userId: number): Promise<number>;
+  createDocument(document: NewDocument, content: StoredContent): Promise<Document>;
+  openDocumentContent(document: Document, range?: ByteRange): Promise<Readable>;
+  getDocumentContent(document: Document): Promise<Buffer>;
   updateDocument(id: number, updates: Partial<Document>): Promise<Document>;
+  trashDocument(id: number): Promise<Document>;
+  restoreDocument(id: number): Promise<Document>;
+  getTrashedDocuments(userId: number): Promise<(DocumentMetadata & { deletedAt: Date })[]>;
+  getDocumentsTrashedBefore(deletedBefore: Date): Promise<Document[]>;
   deleteDocument(id: number): Promise<void>;
+  getLegacyDocuments(): Promise<Document[]>;
+  migrateDocumentContent(document: Document): Promise<Document>;
+  getDocumentsWithoutVersionHistory(): Promise<Document[]>;
+  ensureVersionHistory(document: Document): Promise<Document>;
+  getUnencryptedBlobs(): Promise<{ blobKey: string; userId: number }[]>;
+  encryptBlob(blobKey: string, userId: number): Promise<string | undefined>;
+  saveDocumentText(document: Document, content: string): Promise<void>;
+  getDocumentsWithoutText(): Promise<Document[]>;
+  getDocumentPreview(document: Document): Promise<DocumentPreview | undefined>;
+  saveDocumentPreview(
+    document: Document,
+    preview: Pick<DocumentPreview, "thumbnailKey" | "previewText" | "error">,
+  ): Promise<void>;
+  openThumbnail(preview: DocumentPreview): Promise<Readable>;
+  getDocumentsWithoutPreview(contentTypes: string[], limit: number): Promise<Document[]>;
+
+  getDocumentVersions(document: Document): Promise<DocumentVersionInfo[]>;
+  getDocumentVersion(document: Document, version: number): Promise<DocumentVersion | undefined>;
+  addDocumentVersion(
+    document: Document,
+    content: StoredContent,
+    contentType: string,
+    uploadedBy: number,
+    restoredFrom?: number | null,
+  ): Promise<Document>;
 
   getAccessRequests(userId: number): Promise<AccessRequest[]>;
-  createAccessRequest(request: Omit<AccessRequest, "id">): Promise<AccessRequest>;
+  getAccessRequest(id: number): Promise<AccessRequest | undefined>;
+  getAccessRequestByReceipt(receiptToken: string): Promise<AccessRequest | undefined>;
+  createAccessRequest(request: Omit<AccessRequest, "id" | "createdAt">): Promise<AccessRequest>;
   updateAccessRequest(id: number, updates: Partial<AccessRequest>): Promise<AccessRequest>;
+  updateAccessRequestFromStatus(
+    id: number,
+    fromStatus: AccessRequestStatus,
+    updates: Partial<AccessRequest>,
+  ): Promise<AccessRequest | undefined>;
+  getStalePendingAccessRequests(createdBefore: Date): Promise<AccessRequest[]>;
+  countPendingAccessRequests(userId: number): Promise<number>;
+  getLapsedApprovedAccessRequests(): Promise<AccessRequest[]>;
+
+  getAccessRequestEvents(accessRequestId: number): Promise<AccessRequestEvent[]>;
+  createAccessRequestEvent(event: Omit<AccessRequestEvent, "id" | "createdAt">): Promise<AccessRequestEvent>;
+
+  getActiveAccessGrants(sessionId: string): Promise<AccessGrant[]>;
+  getActiveAccessGrantsForRequest(accessRequestId: number): Promise<AccessGrant[]>;
+  createAccessGrant(grant: Omit<AccessGrant, "id" | "createdAt" | "revoked">): Promise<AccessGrant>;
+  revokeAccessGrants(accessRequestId: number): Promise<void>;
+
+  getShareLinks(userId: number): Promise<ShareLink[]>;
+  getShareLink(id: number): Promise<ShareLink | undefined>;
+  getShareLinkByToken(token: string): Promise<ShareLink | undefined>;
+  createShareLink(link: Omit<ShareLink, "id" | "createdAt" | "revoked">): Promise<ShareLink>;
+  updateShareLink(id: number, updates: Partial<ShareLink>): Promise<ShareLink>;
+
+  registerPinAttempt(
+    keys: string[],
+    windowStart: Date,
+    blockUntil: (failures: number) => Date | null,
+  ): Promise<{ blockedUntil: Date | null; attempts: PinAttempt[] }>;
+  forgivePinAttempt(key: string): Promise<void>;
+  clearPinAttempts(key: string): Promise<boolean>;
+  deleteStalePinAttempts(lastAttemptBefore: Date): Promise<number>;
+  getBlockedPinAttempts(): Promise<PinAttempt[]>;
+  createPinLockout(lockout: Pick<PinLockout, "userId" | "failures" | "lockedUntil">): Promise<PinLockout>;
+  getPinLockouts(userId: number): Promise<PinLockout[]>;
+  dismissPinLockout(id: number, userId: number): Promise<boolean>;
+
+  hitRateLimit(key: string, maxHits: number, windowEndsAt: Date): Promise<RateLimit>;
+  getBlockedRateLimits(): Promise<RateLimit[]>;
+  deleteRateLimit(key: string): Promise<boolean>;
+  deleteExpiredRateLimits(): Promise<number>;
+
+  getFolders(userId: number): Promise<Folder[]>;
+  getFolder(id: number): Promise<Folder | undefined>;
+  getFolderSubtreeIds(id: number): Promise<number[]>;
+  createFolder(folder: Pick<Folder, "userId" | "parentId" | "name">): Promise<Folder>;
+  updateFolder(id: number, updates: Partial<Folder>): Promise<Folder>;
+  deleteFolder(id: number): Promise<void>;
+
+  getUploadSessions(userId: number): Promise<UploadSession[]>;
+  getUploadSession(id: number): Promise<UploadSession | undefined>;
+  createUploadSession(
+    upload: Omit<UploadSession, "id" | "createdAt" | "receivedBytes" | "chunkKeys">,
+  ): Promise<UploadSession>;
+  appendUploadChunk(
+    upload: UploadSession,
+    chunk: StoredContent,
+    expiresAt: Date,
+  ): Promise<UploadSession | undefined>;
+  deleteUploadSession(id: number): Promise<UploadSession | undefined>;
+  getExpiredUploadSessions(): Promise<UploadSession[]>;
 
   sessionStore: session.Store;
 }
@@ -29,7 +298,7 @@ export interface IStorage {
 export class DatabaseStorage implements IStorage {
   sessionStore: session.Store;
 
-  constructor() {
+  constructor(private blobStore: BlobStore) {
     this.sessionStore = new PostgresSessionStore({
       pool,
       createTableIfMissing: true,
@@ -51,8 +320,197 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async getDocuments(userId: number): Promise<Document[]> {
-    return await db.select().from(documents).where(eq(documents.userId, userId));
+  // Turns two-factor login on with a confirmed secret and a fresh set of
+  // recovery codes. `totpCounter` is the step of the code that confirmed it.
+  async enableTwoFactor(
+    userId: number,
+    totpSecret: string,
+    totpCounter: number,
+    recoveryCodeHashes: string[],
+  ): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({ totpSecret, totpLastCounter: totpCounter })
+        .where(eq(users.id, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx
+        .insert(recoveryCodes)
+        .values(recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  async disableTwoFactor(userId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({ totpSecret: null, totpLastCounter: null })
+        .where(eq(users.id, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    });
+  }
+
+  // Only ever set once: documents are already encrypted under the key it checks
+  async setEndToEndKeyCheck(userId: number, keyCheck: string): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ endToEndKeyCheck: keyCheck })
+      .where(and(eq(users.id, userId), isNull(users.endToEndKeyCheck)))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  // Records a TOTP code's time step as used. False if that step, or a later
+  // one, was already used, i.e. the code is being replayed.
+  async useTotpCounter(userId: number, counter: number): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ totpLastCounter: counter })
+      .where(
+        and(
+          eq(users.id, userId),
+          or(isNull(users.totpLastCounter), lt(users.totpLastCounter, counter)),
+        ),
+      )
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  // Marks an unused recovery code as used; false if there is none to use
+  async useRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const updated = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(recoveryCodes.userId, userId),
+          eq(recoveryCodes.codeHash, codeHash),
+          isNull(recoveryCodes.usedAt),
+        ),
+      )
+      .returning({ id: recoveryCodes.id });
+    return updated.length > 0;
+  }
+
+  async getDocuments(userId: number): Promise<DocumentMetadata[]> {
+    return await db
+      .select(documentMetadata)
+      .from(documents)
+      .where(and(eq(documents.userId, userId), isNull(documents.deletedAt)));
+  }
+
+  // One page of a user's documents, optionally narrowed by `scope`
+  async listDocuments(
+    userId: number,
+    { page, pageSize, sort, order }: ListDocumentsQuery,
+    scope: DocumentScope = {},
+  ): Promise<DocumentPage> {
+    const where = this.scopeCondition(userId, scope);
+    const direction = order === "asc" ? asc : desc;
+
+    const rows = await db
+      .select({
+        ...documentMetadata,
+        thumbnailKey: documentPreviews.thumbnailKey,
+        previewText: documentPreviews.previewText,
+      })
+      .from(documents)
+      .leftJoin(
+        documentPreviews,
+        and(
+          eq(documentPreviews.documentId, documents.id),
+          eq(documentPreviews.version, documents.version),
+        ),
+      )
+      .where(where)
+      .orderBy(direction(documents[sort]), direction(documents.id))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+    const [{ total }] = await db.select({ total: count() }).from(documents).where(where);
+
+    // The version in the thumbnail URL lets browsers cache it until a new upload
+    const listed = rows.map(({ thumbnailKey, ...row }) => ({
+      ...row,
+      thumbnailUrl: thumbnailKey ? `/api/documents/${row.id}/thumbnail?v=${row.version}` : null,
+    }));
+    return { documents: listed, total, page, pageSize };
+  }
+
+  async isDocumentInScope(userId: number, documentId: number, scope: DocumentScope): Promise<boolean> {
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(documents)
+      .where(and(this.scopeCondition(userId, scope), eq(documents.id, documentId)));
+    return total > 0;
+  }
+
+  // Ranks name and tag matches above matches in the extracted text
+  async searchDocuments(
+    userId: number,
+    { q, page, pageSize }: SearchQuery,
+  ): Promise<SearchResultPage> {
+    const query = sql`websearch_to_tsquery('english', ${q})`;
+    const where = and(
+      eq(documents.userId, userId),
+      isNull(documents.deletedAt),
+      sql`(${documents.searchVector} @@ ${query} or ${documentTexts.searchVector} @@ ${query})`,
+    );
+
+    const rows = await db
+      .select({
+        ...documentMetadata,
+        nameHeadline: sql<string>`ts_headline('english', ${documents.name}, ${query}, ${NAME_HEADLINE_OPTIONS})`,
+        snippetHeadline: sql<string | null>`case when ${documentTexts.searchVector} @@ ${query}
+          then ts_headline('english', ${documentTexts.content}, ${query}, ${SNIPPET_HEADLINE_OPTIONS}) end`,
+      })
+      .from(documents)
+      .leftJoin(documentTexts, eq(documentTexts.documentId, documents.id))
+      .where(where)
+      .orderBy(
+        desc(sql`ts_rank(${documents.searchVector} || coalesce(${documentTexts.searchVector}, ''::tsvector), ${query})`),
+        desc(documents.id),
+      )
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(documents)
+      .leftJoin(documentTexts, eq(documentTexts.documentId, documents.id))
+      .where(where);
+
+    const results = rows.map(({ nameHeadline, snippetHeadline, ...metadata }) => ({
+      ...metadata,
+      highlightedName: toHighlightedText(nameHeadline),
+      snippet: snippetHeadline === null ? null : toHighlightedText(snippetHeadline),
+    }));
+    return { results, total, page, pageSize };
+  }
+
+  // A user's documents outside the trash, narrowed by `scope`
+  private scopeCondition(
+    userId: number,
+    { documentIds, folderId, folderIds, filter }: DocumentScope,
+  ) {
+    return and(
+      eq(documents.userId, userId),
+      isNull(documents.deletedAt),
+      documentIds ? inArray(documents.id, documentIds) : undefined,
+      folderId === null ? isNull(documents.folderId) : undefined,
+      folderId ? eq(documents.folderId, folderId) : undefined,
+      folderIds ? inArray(documents.folderId, folderIds) : undefined,
+      filter?.tags?.length
+        ? sql`${documents.tags} @> ${JSON.stringify(filter.tags)}::jsonb`
+        : undefined,
+      ...(filter?.fields ?? []).map(fieldCondition),
+    );
   }
 
   async getDocument(id: number): Promise<Document | undefined> {
@@ -60,9 +518,218 @@ export class DatabaseStorage implements IStorage {
     return document;
   }
 
-  async createDocument(document: Omit<Document, "id">): Promise<Document> {
-    const [newDoc] = await db.insert(documents).values(document).returning();
-    return newDoc;
+  async getDocumentByName(userId: number, name: string): Promise<Document | undefined> {
+    const [document] = await db
+      .select()
+      .from(documents)
+      .where(
+        and(
+          eq(documents.userId, userId),
+          eq(documents.name, name),
+          isNull(documents.deletedAt),
+        ),
+      );
+    return document;
+  }
+
+  // The user's key, created on first use. Taken under a share lock so a
+  // rotation cannot replace it while a data key is being wrapped with it.
+  private async lockUserKey(tx: Transaction, userId: number): Promise<Buffer> {
+    const select = () =>
+      tx.select().from(userKeys).where(eq(userKeys.userId, userId)).for("share");
+
+    let [userKey] = await select();
+    if (!userKey) {
+      await tx
+        .insert(userKeys)
+        .values({ userId, ...wrapUserKey(generateKey()) })
+        .onConflictDoNothing();
+      [userKey] = await select();
+    }
+    return unwrapUserKey(userKey);
+  }
+
+  // Streams bytes into the blob store, measuring and hashing them on the way.
+  // The bytes are encrypted with a new data key, which is stored wrapped with
+  // the user's key once the blob is written.
+  async writeContent(userId: number, data: Readable): Promise<StoredContent> {
+    const blobKey = `documents/${userId}/${randomUUID()}`;
+    const hash = createHash("sha256");
+    let size = 0;
+
+    const measure = new Transform({
+      transform(chunk: Buffer, _encoding, done) {
+        hash.update(chunk);
+        size += chunk.length;
+        done(null, chunk);
+      },
+    });
+    const dataKey = generateKey();
+    const iv = generateIv();
+    const encrypt = encryptContent(dataKey, iv);
+    data.on("error", (error) => measure.destroy(error));
+    measure.on("error", (error) => encrypt.destroy(error));
+
+    await this.blobStore.put(blobKey, data.pipe(measure).pipe(encrypt));
+    try {
+      await db.transaction(async (tx) => {
+        const userKey = await this.lockUserKey(tx, userId);
+        await tx.insert(contentKeys).values({
+          blobKey,
+          userId,
+          wrappedKey: wrapKey(dataKey, userKey),
+          iv: iv.toString("base64"),
+        });
+      });
+    } catch (error) {
+      await this.blobStore.delete(blobKey);
+      throw error;
+    }
+    return { blobKey, size, checksum: hash.digest("hex"), endToEnd: false };
+  }
+
+  // Reads a blob, decrypting it if it was stored encrypted. Blobs written
+  // before encryption have no key and are read as they are, until
+  // `npm run blobs:migrate` encrypts them.
+  private async openBlob(blobKey: string, range?: ByteRange): Promise<Readable> {
+    const [key] = await db
+      .select({
+        wrappedKey: contentKeys.wrappedKey,
+        iv: contentKeys.iv,
+        userKey: { wrappedKey: userKeys.wrappedKey, masterKeyId: userKeys.masterKeyId },
+      })
+      .from(contentKeys)
+      .innerJoin(userKeys, eq(userKeys.userId, contentKeys.userId))
+      .where(eq(contentKeys.blobKey, blobKey));
+    if (!key) return await this.blobStore.get(blobKey, range);
+
+    const dataKey = unwrapKey(key.wrappedKey, unwrapUserKey(key.userKey));
+    const iv = Buffer.from(key.iv, "base64");
+    const start = range?.start ?? 0;
+    const encrypted = await this.blobStore.get(
+      blobKey,
+      range && { start: alignToBlock(range.start), end: range.end },
+    );
+    const decrypt = decryptContent(dataKey, iv, start);
+    encrypted.on("error", (error) => decrypt.destroy(error));
+    return encrypted.pipe(decrypt);
+  }
+
+  // Joins several blobs, in order, into a new one
+  async combineContent(userId: number, blobKeys: string[]): Promise<StoredContent> {
+    const openBlob = (key: string) => this.openBlob(key);
+    async function* parts() {
+      for (const key of blobKeys) {
+        yield* await openBlob(key);
+      }
+    }
+    return await this.writeContent(userId, Readable.from(parts()));
+  }
+
+  // The blob goes first: if that fails its key is still there to read it
+  async deleteContent(blobKey: string): Promise<void> {
+    await this.blobStore.delete(blobKey);
+    await db.delete(contentKeys).where(eq(contentKeys.blobKey, blobKey));
+  }
+
+  // The first `length` bytes of stored content, or all of it if shorter
+  async readContentHead(content: StoredContent, length: number): Promise<Buffer> {
+    if (content.size === 0) return Buffer.alloc(0);
+    const end = Math.min(length, content.size) - 1;
+    return await buffer(await this.openBlob(content.blobKey, { start: 0, end }));
+  }
+
+  // User keys still wrapped with a master key other than the current one
+  async getUserKeysToRewrap(): Promise<UserKey[]> {
+    return await db
+      .select()
+      .from(userKeys)
+      .where(sql`${userKeys.masterKeyId} <> ${currentMasterKeyId()}`);
+  }
+
+  // Wraps the user's key with the current master key. The key itself, and so
+  // every data key wrapped with it, stays the same.
+  async rewrapUserKey(userId: number): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [userKey] = await tx
+        .select()
+        .from(userKeys)
+        .where(eq(userKeys.userId, userId))
+        .for("update");
+      if (!userKey || userKey.masterKeyId === currentMasterKeyId()) return;
+
+      await tx
+        .update(userKeys)
+        .set({ ...wrapUserKey(unwrapUserKey(userKey)), rotatedAt: new Date() })
+        .where(eq(userKeys.userId, userId));
+    });
+  }
+
+  async getUserIdsWithKeys(): Promise<number[]> {
+    const rows = await db.select({ userId: userKeys.userId }).from(userKeys);
+    return rows.map((row) => row.userId);
+  }
+
+  // Replaces the user's key with a new one and re-wraps each of their data
+  // keys with it. Blob contents are untouched. Returns the number of data keys.
+  async rotateUserKey(userId: number): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const [userKey] = await tx
+        .select()
+        .from(userKeys)
+        .where(eq(userKeys.userId, userId))
+        .for("update");
+      if (!userKey) return 0;
+
+      const oldKey = unwrapUserKey(userKey);
+      const newKey = generateKey();
+      const dataKeys = await tx
+        .select({ blobKey: contentKeys.blobKey, wrappedKey: contentKeys.wrappedKey })
+        .from(contentKeys)
+        .where(eq(contentKeys.userId, userId));
+      for (const { blobKey, wrappedKey } of dataKeys) {
+        await tx
+          .update(contentKeys)
+          .set({ wrappedKey: wrapKey(unwrapKey(wrappedKey, oldKey), newKey) })
+          .where(eq(contentKeys.blobKey, blobKey));
+      }
+      await tx
+        .update(userKeys)
+        .set({ ...wrapUserKey(newKey), rotatedAt: new Date() })
+        .where(eq(userKeys.userId, userId));
+      return dataKeys.length;
+    });
+  }
+
+  // Bytes are written before the row, so a row never points at a missing blob
+  async createDocument(document: NewDocument, content: StoredContent): Promise<Document> {
+    return await db.transaction(async (tx) => {
+      const [newDoc] = await tx
+        .insert(documents)
+        .values({ ...document, ...content })
+        .returning();
+      await tx.insert(documentVersions).values({
+        documentId: newDoc.id,
+        version: newDoc.version,
+        contentType: newDoc.contentType,
+        ...content,
+        uploadedBy: newDoc.userId,
+      });
+      return newDoc;
+    });
+  }
+
+  async openDocumentContent(document: Document, range?: ByteRange): Promise<Readable> {
+    if (document.blobKey) return await this.openBlob(document.blobKey, range);
+    if (document.content !== null) {
+      const legacy = Buffer.from(document.content, "base64");
+      return Readable.from(range ? legacy.subarray(range.start, range.end + 1) : legacy);
+    }
+    throw new Error(`Document ${document.id} has no content`);
+  }
+
+  async getDocumentContent(document: Document): Promise<Buffer> {
+    return await buffer(await this.openDocumentContent(document));
   }
 
   async updateDocument(id: number, updates: Partial<Document>): Promise<Document> {
@@ -76,8 +743,344 @@ export class DatabaseStorage implements IStorage {
     return updatedDoc;
   }
 
+  async trashDocument(id: number): Promise<Document> {
+    return await this.updateDocument(id, { deletedAt: new Date() });
+  }
+
+  async restoreDocument(id: number): Promise<Document> {
+    return await this.updateDocument(id, { deletedAt: null });
+  }
+
+  async getTrashedDocuments(userId: number): Promise<(DocumentMetadata & { deletedAt: Date })[]> {
+    const rows = await db
+      .select({ ...documentMetadata, deletedAt: documents.deletedAt })
+      .from(documents)
+      .where(and(eq(documents.userId, userId), isNotNull(documents.deletedAt)))
+      .orderBy(desc(documents.deletedAt));
+    return rows.map((row) => ({ ...row, deletedAt: row.deletedAt! }));
+  }
+
+  async getDocumentsTrashedBefore(deletedBefore: Date): Promise<Document[]> {
+    return await db
+      .select()
+      .from(documents)
+      .where(lt(documents.deletedAt, deletedBefore));
+  }
+
+  // Removes a document and every version's bytes for good
   async deleteDocument(id: number): Promise<void> {
-    await db.delete(documents).where(eq(documents.id, id));
+    const { deletedDoc, versions, thumbnailKey } = await db.transaction(async (tx) => {
+      await tx.delete(documentTexts).where(eq(documentTexts.documentId, id));
+      const [preview] = await tx
+        .delete(documentPreviews)
+        .where(eq(documentPreviews.documentId, id))
+        .returning({ thumbnailKey: documentPreviews.thumbnailKey });
+      const versions = await tx
+        .delete(documentVersions)
+        .where(eq(documentVersions.documentId, id))
+        .returning({ blobKey: documentVersions.blobKey });
+      const [deletedDoc] = await tx.delete(documents).where(eq(documents.id, id)).returning();
+      return { deletedDoc, versions, thumbnailKey: preview?.thumbnailKey };
+    });
+
+    // Restored versions share their blob with the version they came from
+    const blobKeys = new Set(versions.map((version) => version.blobKey));
+    if (deletedDoc?.blobKey) blobKeys.add(deletedDoc.blobKey);
+    if (thumbnailKey) blobKeys.add(thumbnailKey);
+    for (const blobKey of Array.from(blobKeys)) {
+      await this.deleteContent(blobKey);
+    }
+  }
+
+  // Rows still carrying their bytes in the old base64 `content` column
+  async getLegacyDocuments(): Promise<Document[]> {
+    return await db.select().from(documents).where(isNotNull(documents.content));
+  }
+
+  async migrateDocumentContent(document: Document): Promise<Document> {
+    if (document.content === null) return document;
+
+    const stored = await this.writeContent(
+      document.userId,
+      Readable.from(Buffer.from(document.content, "base64")),
+    );
+    return await this.updateDocument(document.id, { ...stored, content: null });
+  }
+
+  // Blobs written before stored contents were encrypted: they have no data key
+  async getUnencryptedBlobs(): Promise<{ blobKey: string; userId: number }[]> {
+    const unkeyed = (blobKey: Column) =>
+      and(
+        isNotNull(blobKey),
+        notExists(db.select().from(contentKeys).where(eq(contentKeys.blobKey, blobKey))),
+      );
+    const rows = [
+      ...(await db
+        .select({ blobKey: documentVersions.blobKey, userId: documents.userId })
+        .from(documentVersions)
+        .innerJoin(documents, eq(documents.id, documentVersions.documentId))
+        .where(unkeyed(documentVersions.blobKey))),
+      ...(await db
+        .select({ blobKey: documents.blobKey, userId: documents.userId })
+        .from(documents)
+        .where(unkeyed(documents.blobKey))),
+      ...(await db
+        .select({ blobKey: documentPreviews.thumbnailKey, userId: documents.userId })
+        .from(documentPreviews)
+        .innerJoin(documents, eq(documents.id, documentPreviews.documentId))
+        .where(unkeyed(documentPreviews.thumbnailKey))),
+    ];
+
+    // Restored versions share their blob with the version they came from
+    const blobs = new Map<string, number>();
+    for (const { blobKey, userId } of rows) {
+      if (blobKey) blobs.set(blobKey, userId);
+    }
+    return Array.from(blobs, ([blobKey, userId]) => ({ blobKey, userId }));
+  }
+
+  // Writes an encrypted copy of an unencrypted blob, points every row that
+  // used the old blob at the copy, then deletes the old one. Blobs are never
+  // overwritten in place, so a failure at any step leaves readable bytes.
+  // Returns the copy's key, or undefined if nothing uses the blob any more.
+  async encryptBlob(blobKey: string, userId: number): Promise<string | undefined> {
+    const stored = await this.writeContent(userId, await this.blobStore.get(blobKey));
+
+    const used = await db.transaction(async (tx) => {
+      const updated = [
+        ...(await tx
+          .update(documents)
+          .set({ blobKey: stored.blobKey })
+          .where(eq(documents.blobKey, blobKey))
+          .returning({ id: documents.id })),
+        ...(await tx
+          .update(documentVersions)
+          .set({ blobKey: stored.blobKey })
+          .where(eq(documentVersions.blobKey, blobKey))
+          .returning({ id: documentVersions.id })),
+        ...(await tx
+          .update(documentPreviews)
+          .set({ thumbnailKey: stored.blobKey })
+          .where(eq(documentPreviews.thumbnailKey, blobKey))
+          .returning({ id: documentPreviews.documentId })),
+      ];
+      return updated.length > 0;
+    });
+
+    // The document was deleted meanwhile, and took the old blob with it
+    if (!used) {
+      await this.deleteContent(stored.blobKey);
+      return undefined;
+    }
+    await this.blobStore.delete(blobKey);
+    return stored.blobKey;
+  }
+
+  // Documents from before versioning, which have no history rows yet
+  async getDocumentsWithoutVersionHistory(): Promise<Document[]> {
+    return await db
+      .select()
+      .from(documents)
+      .where(
+        notExists(
+          db
+            .select()
+            .from(documentVersions)
+            .where(eq(documentVersions.documentId, documents.id)),
+        ),
+      );
+  }
+
+  // Gives a document from before versioning its current bytes as the first
+  // history entry. Run by `npm run blobs:migrate`, so reads never write.
+  async ensureVersionHistory(document: Document): Promise<Document> {
+    const current = await this.migrateDocumentContent(document);
+    if (!current.blobKey || current.size === null || current.checksum === null) {
+      throw new Error(`Document ${document.id} has no content`);
+    }
+
+    await db
+      .insert(documentVersions)
+      .values({
+        documentId: current.id,
+        version: current.version,
+        contentType: current.contentType,
+        blobKey: current.blobKey,
+        size: current.size,
+        checksum: current.checksum,
+        uploadedBy: current.userId,
+        createdAt: current.updatedAt,
+      })
+      .onConflictDoNothing();
+    return current;
+  }
+
+  // Text from an older version never replaces text from a newer one
+  async saveDocumentText(document: Document, content: string): Promise<void> {
+    await db
+      .insert(documentTexts)
+      .values({ documentId: document.id, version: document.version, content })
+      .onConflictDoUpdate({
+        target: documentTexts.documentId,
+        set: { version: document.version, content, extractedAt: new Date() },
+        setWhere: sql`${documentTexts.version} <= ${document.version}`,
+      });
+  }
+
+  // Documents whose current version has not had its text extracted yet.
+  // End-to-end encrypted ones never will: the server cannot read them.
+  async getDocumentsWithoutText(): Promise<Document[]> {
+    return await db
+      .select()
+      .from(documents)
+      .where(
+        and(
+          isNull(documents.deletedAt),
+          eq(documents.endToEnd, false),
+          notExists(
+            db
+              .select()
+              .from(documentTexts)
+              .where(
+                and(
+                  eq(documentTexts.documentId, documents.id),
+                  eq(documentTexts.version, documents.version),
+                ),
+              ),
+          ),
+        ),
+      );
+  }
+
+  // The preview of the document's current version, if one was generated
+  async getDocumentPreview(document: Document): Promise<DocumentPreview | undefined> {
+    const [preview] = await db
+      .select()
+      .from(documentPreviews)
+      .where(
+        and(
+          eq(documentPreviews.documentId, document.id),
+          eq(documentPreviews.version, document.version),
+        ),
+      );
+    return preview;
+  }
+
+  // Replaces the document's preview, removing the old thumbnail. A preview of
+  // an older version never replaces one of a newer version.
+  async saveDocumentPreview(
+    document: Document,
+    preview: Pick<DocumentPreview, "thumbnailKey" | "previewText" | "error">,
+  ): Promise<void> {
+    const replaced = await db.transaction(async (tx) => {
+      const [previous] = await tx
+        .select({ thumbnailKey: documentPreviews.thumbnailKey, version: documentPreviews.version })
+        .from(documentPreviews)
+        .where(eq(documentPreviews.documentId, document.id))
+        .for("update");
+      if (previous && previous.version > document.version) return preview.thumbnailKey;
+
+      await tx
+        .insert(documentPreviews)
+        .values({ documentId: document.id, version: document.version, ...preview })
+        .onConflictDoUpdate({
+          target: documentPreviews.documentId,
+          set: { version: document.version, ...preview, createdAt: new Date() },
+        });
+      return previous?.thumbnailKey;
+    });
+
+    if (replaced) await this.deleteContent(replaced);
+  }
+
+  async openThumbnail(preview: DocumentPreview): Promise<Readable> {
+    if (!preview.thumbnailKey) throw new Error(`Document ${preview.documentId} has no thumbnail`);
+    return await this.openBlob(preview.thumbnailKey);
+  }
+
+  // Documents of the given types with no preview for their current version
+  // yet, leaving out end-to-end encrypted ones
+  async getDocumentsWithoutPreview(contentTypes: string[], limit: number): Promise<Document[]> {
+    return await db
+      .select()
+      .from(documents)
+      .where(
+        and(
+          isNull(documents.deletedAt),
+          eq(documents.endToEnd, false),
+          inArray(documents.contentType, contentTypes),
+          notExists(
+            db
+              .select()
+              .from(documentPreviews)
+              .where(
+                and(
+                  eq(documentPreviews.documentId, documents.id),
+                  eq(documentPreviews.version, documents.version),
+                ),
+              ),
+          ),
+        ),
+      )
+      .orderBy(asc(documents.updatedAt))
+      .limit(limit);
+  }
+
+  async getDocumentVersions(document: Document): Promise<DocumentVersionInfo[]> {
+    const rows = await db
+      .select({
+        version: documentVersions,
+        uploader: { id: users.id, username: users.username },
+      })
+      .from(documentVersions)
+      .innerJoin(users, eq(users.id, documentVersions.uploadedBy))
+      .where(eq(documentVersions.documentId, document.id))
+      .orderBy(desc(documentVersions.version));
+
+    return rows.map(({ version: { blobKey, ...version }, uploader }) => ({ ...version, uploader }));
+  }
+
+  async getDocumentVersion(document: Document, version: number): Promise<DocumentVersion | undefined> {
+    const [row] = await db
+      .select()
+      .from(documentVersions)
+      .where(
+        and(eq(documentVersions.documentId, document.id), eq(documentVersions.version, version)),
+      );
+    return row;
+  }
+
+  // Makes `content` the newest version of a document
+  async addDocumentVersion(
+    document: Document,
+    content: StoredContent,
+    contentType: string,
+    uploadedBy: number,
+    restoredFrom: number | null = null,
+  ): Promise<Document> {
+    // Already a write; keeps the replaced bytes in the history even if the
+    // document was never backfilled
+    await this.ensureVersionHistory(document);
+
+    return await db.transaction(async (tx) => {
+      // Numbered by incrementing the row, so concurrent uploads never share a number
+      const [updatedDoc] = await tx
+        .update(documents)
+        .set({ ...content, contentType, version: sql`${documents.version} + 1` })
+        .where(eq(documents.id, document.id))
+        .returning();
+      if (!updatedDoc) throw new Error("Document not found");
+
+      await tx.insert(documentVersions).values({
+        documentId: updatedDoc.id,
+        version: updatedDoc.version,
+        contentType,
+        ...content,
+        uploadedBy,
+        restoredFrom,
+      });
+      return updatedDoc;
+    });
   }
 
   async getAccessRequests(userId: number): Promise<AccessRequest[]> {
@@ -87,7 +1090,20 @@ export class DatabaseStorage implements IStorage {
       .where(eq(accessRequests.userId, userId));
   }
 
-  async createAccessRequest(request: Omit<AccessRequest, "id">): Promise<AccessRequest> {
+  async getAccessRequest(id: number): Promise<AccessRequest | undefined> {
+    const [request] = await db.select().from(accessRequests).where(eq(accessRequests.id, id));
+    return request;
+  }
+
+  async getAccessRequestByReceipt(receiptToken: string): Promise<AccessRequest | undefined> {
+    const [request] = await db
+      .select()
+      .from(accessRequests)
+      .where(eq(accessRequests.receiptToken, receiptToken));
+    return request;
+  }
+
+  async createAccessRequest(request: Omit<AccessRequest, "id" | "createdAt">): Promise<AccessRequest> {
     const [newRequest] = await db
       .insert(accessRequests)
       .values(request)
@@ -105,6 +1121,435 @@ export class DatabaseStorage implements IStorage {
     if (!updatedRequest) throw new Error("Access request not found");
     return updatedRequest;
   }
+
+  // Updates the request only if it still has `fromStatus`, so of two changes
+  // racing from the same status only one goes through. Undefined if it lost.
+  async updateAccessRequestFromStatus(
+    id: number,
+    fromStatus: AccessRequestStatus,
+    updates: Partial<AccessRequest>,
+  ): Promise<AccessRequest | undefined> {
+    const [updatedRequest] = await db
+      .update(accessRequests)
+      .set(updates)
+      .where(and(eq(accessRequests.id, id), eq(accessRequests.status, fromStatus)))
+      .returning();
+    return updatedRequest;
+  }
+
+  async getStalePendingAccessRequests(createdBefore: Date): Promise<AccessRequest[]> {
+    return await db
+      .select()
+      .from(accessRequests)
+      .where(
+        and(
+          eq(accessRequests.status, "pending"),
+          lt(accessRequests.createdAt, createdBefore),
+        ),
+      );
+  }
+
+  async countPendingAccessRequests(userId: number): Promise<number> {
+    const [{ pending }] = await db
+      .select({ pending: count() })
+      .from(accessRequests)
+      .where(and(eq(accessRequests.userId, userId), eq(accessRequests.status, "pending")));
+    return pending;
+  }
+
+  // Approved requests whose grants have all run out or been revoked
+  async getLapsedApprovedAccessRequests(): Promise<AccessRequest[]> {
+    return await db
+      .select()
+      .from(accessRequests)
+      .where(
+        and(
+          eq(accessRequests.status, "approved"),
+          notExists(
+            db
+              .select()
+              .from(accessGrants)
+              .where(
+                and(
+                  eq(accessGrants.accessRequestId, accessRequests.id),
+                  eq(accessGrants.revoked, false),
+                  gt(accessGrants.expiresAt, new Date()),
+                ),
+              ),
+          ),
+        ),
+      );
+  }
+
+  async getAccessRequestEvents(accessRequestId: number): Promise<AccessRequestEvent[]> {
+    return await db
+      .select()
+      .from(accessRequestEvents)
+      .where(eq(accessRequestEvents.accessRequestId, accessRequestId))
+      .orderBy(asc(accessRequestEvents.createdAt));
+  }
+
+  async createAccessRequestEvent(
+    event: Omit<AccessRequestEvent, "id" | "createdAt">,
+  ): Promise<AccessRequestEvent> {
+    const [newEvent] = await db.insert(accessRequestEvents).values(event).returning();
+    return newEvent;
+  }
+
+  async getActiveAccessGrants(sessionId: string): Promise<AccessGrant[]> {
+    return await db
+      .select()
+      .from(accessGrants)
+      .where(
+        and(
+          eq(accessGrants.sessionId, sessionId),
+          eq(accessGrants.revoked, false),
+          gt(accessGrants.expiresAt, new Date()),
+        ),
+      );
+  }
+
+  async getActiveAccessGrantsForRequest(accessRequestId: number): Promise<AccessGrant[]> {
+    return await db
+      .select()
+      .from(accessGrants)
+      .where(
+        and(
+          eq(accessGrants.accessRequestId, accessRequestId),
+          eq(accessGrants.revoked, false),
+          gt(accessGrants.expiresAt, new Date()),
+        ),
+      );
+  }
+
+  async createAccessGrant(grant: Omit<AccessGrant, "id" | "createdAt" | "revoked">): Promise<AccessGrant> {
+    const [newGrant] = await db.insert(accessGrants).values(grant).returning();
+    return newGrant;
+  }
+
+  async revokeAccessGrants(accessRequestId: number): Promise<void> {
+    await db
+      .update(accessGrants)
+      .set({ revoked: true })
+      .where(eq(accessGrants.accessRequestId, accessRequestId));
+  }
+
+  async getShareLinks(userId: number): Promise<ShareLink[]> {
+    return await db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.userId, userId))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async getShareLink(id: number): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.id, id));
+    return link;
+  }
+
+  async getShareLinkByToken(token: string): Promise<ShareLink | undefined> {
+    const [link] = await db.select().from(shareLinks).where(eq(shareLinks.token, token));
+    return link;
+  }
+
+  async createShareLink(link: Omit<ShareLink, "id" | "createdAt" | "revoked">): Promise<ShareLink> {
+    const [newLink] = await db.insert(shareLinks).values(link).returning();
+    return newLink;
+  }
+
+  async updateShareLink(id: number, updates: Partial<ShareLink>): Promise<ShareLink> {
+    const [updatedLink] = await db
+      .update(shareLinks)
+      .set(updates)
+      .where(eq(shareLinks.id, id))
+      .returning();
+
+    if (!updatedLink) throw new Error("Share link not found");
+    return updatedLink;
+  }
+
+  // Counts an attempt against each key, unless one of them is still blocked.
+  // The rows stay locked until the new counts are written, so attempts made
+  // in parallel are counted one after another. Counts last touched before
+  // `windowStart` start over.
+  async registerPinAttempt(
+    keys: string[],
+    windowStart: Date,
+    blockUntil: (failures: number) => Date | null,
+  ): Promise<{ blockedUntil: Date | null; attempts: PinAttempt[] }> {
+    // Always lock in the same order so two attempts cannot deadlock
+    const sortedKeys = Array.from(new Set(keys)).sort();
+
+    return await db.transaction(async (tx) => {
+      await tx
+        .insert(pinAttempts)
+        .values(sortedKeys.map((key) => ({ key })))
+        .onConflictDoNothing();
+      const rows = await tx
+        .select()
+        .from(pinAttempts)
+        .where(inArray(pinAttempts.key, sortedKeys))
+        .orderBy(asc(pinAttempts.key))
+        .for("update");
+
+      const now = new Date();
+      const blocked = rows
+        .filter((row) => row.blockedUntil && row.blockedUntil > now)
+        .map((row) => row.blockedUntil!.getTime());
+      if (blocked.length) {
+        return { blockedUntil: new Date(Math.max(...blocked)), attempts: rows };
+      }
+
+      const attempts: PinAttempt[] = [];
+      for (const row of rows) {
+        const failures = row.lastAttemptAt < windowStart ? 1 : row.failures + 1;
+        const [attempt] = await tx
+          .update(pinAttempts)
+          .set({ failures, blockedUntil: blockUntil(failures), lastAttemptAt: now })
+          .where(eq(pinAttempts.key, row.key))
+          .returning();
+        attempts.push(attempt);
+      }
+      return { blockedUntil: null, attempts };
+    });
+  }
+
+  // Takes back one counted attempt that turned out to be correct, along with
+  // the backoff that attempt started
+  async forgivePinAttempt(key: string): Promise<void> {
+    await db
+      .update(pinAttempts)
+      .set({ failures: sql`greatest(${pinAttempts.failures} - 1, 0)`, blockedUntil: null })
+      .where(eq(pinAttempts.key, key));
+  }
+
+  async clearPinAttempts(key: string): Promise<boolean> {
+    const deleted = await db
+      .delete(pinAttempts)
+      .where(eq(pinAttempts.key, key))
+      .returning({ key: pinAttempts.key });
+    return deleted.length > 0;
+  }
+
+  async deleteStalePinAttempts(lastAttemptBefore: Date): Promise<number> {
+    const deleted = await db
+      .delete(pinAttempts)
+      .where(
+        and(
+          lt(pinAttempts.lastAttemptAt, lastAttemptBefore),
+          or(isNull(pinAttempts.blockedUntil), lt(pinAttempts.blockedUntil, new Date())),
+        ),
+      )
+      .returning({ key: pinAttempts.key });
+    return deleted.length;
+  }
+
+  async getBlockedPinAttempts(): Promise<PinAttempt[]> {
+    return await db
+      .select()
+      .from(pinAttempts)
+      .where(gt(pinAttempts.blockedUntil, new Date()))
+      .orderBy(desc(pinAttempts.blockedUntil));
+  }
+
+  async createPinLockout(
+    lockout: Pick<PinLockout, "userId" | "failures" | "lockedUntil">,
+  ): Promise<PinLockout> {
+    const [created] = await db.insert(pinLockouts).values(lockout).returning();
+    return created;
+  }
+
+  // Lockouts the owner has not dismissed yet, newest first
+  async getPinLockouts(userId: number): Promise<PinLockout[]> {
+    return await db
+      .select()
+      .from(pinLockouts)
+      .where(and(eq(pinLockouts.userId, userId), isNull(pinLockouts.dismissedAt)))
+      .orderBy(desc(pinLockouts.createdAt));
+  }
+
+  async dismissPinLockout(id: number, userId: number): Promise<boolean> {
+    const dismissed = await db
+      .update(pinLockouts)
+      .set({ dismissedAt: new Date() })
+      .where(and(eq(pinLockouts.id, id), eq(pinLockouts.userId, userId)))
+      .returning({ id: pinLockouts.id });
+    return dismissed.length > 0;
+  }
+
+  // Counts a hit in the key's current window, or starts a new window ending at
+  // `windowEndsAt` if the last one is over. One statement, so concurrent hits
+  // are all counted.
+  async hitRateLimit(key: string, maxHits: number, windowEndsAt: Date): Promise<RateLimit> {
+    const now = new Date();
+    const windowOver = sql`${rateLimits.windowEndsAt} <= ${now}`;
+    const [rateLimit] = await db
+      .insert(rateLimits)
+      .values({ key, hits: 1, maxHits, windowEndsAt })
+      .onConflictDoUpdate({
+        target: rateLimits.key,
+        set: {
+          hits: sql`case when ${windowOver} then 1 else ${rateLimits.hits} + 1 end`,
+          maxHits,
+          windowEndsAt: sql`case when ${windowOver} then excluded.window_ends_at else ${rateLimits.windowEndsAt} end`,
+        },
+      })
+      .returning();
+    return rateLimit;
+  }
+
+  async getBlockedRateLimits(): Promise<RateLimit[]> {
+    return await db
+      .select()
+      .from(rateLimits)
+      .where(
+        and(
+          gt(rateLimits.hits, rateLimits.maxHits),
+          gt(rateLimits.windowEndsAt, new Date()),
+        ),
+      )
+      .orderBy(desc(rateLimits.windowEndsAt));
+  }
+
+  async deleteRateLimit(key: string): Promise<boolean> {
+    const deleted = await db
+      .delete(rateLimits)
+      .where(eq(rateLimits.key, key))
+      .returning({ key: rateLimits.key });
+    return deleted.length > 0;
+  }
+
+  async deleteExpiredRateLimits(): Promise<number> {
+    const deleted = await db
+      .delete(rateLimits)
+      .where(lt(rateLimits.windowEndsAt, new Date()))
+      .returning({ key: rateLimits.key });
+    return deleted.length;
+  }
+
+  async getFolders(userId: number): Promise<Folder[]> {
+    return await db
+      .select()
+      .from(folders)
+      .where(eq(folders.userId, userId))
+      .orderBy(asc(folders.name));
+  }
+
+  async getFolder(id: number): Promise<Folder | undefined> {
+    const [folder] = await db.select().from(folders).where(eq(folders.id, id));
+    return folder;
+  }
+
+  // The folder and every folder below it, at any depth
+  async getFolderSubtreeIds(id: number): Promise<number[]> {
+    const result = await db.execute<{ id: number }>(sql`
+      with recursive subtree as (
+        select id from ${folders} where id = ${id}
+        union all
+        select f.id from ${folders} f join subtree on f.parent_id = subtree.id
+      )
+      select id from subtree
+    `);
+    return result.rows.map((row) => row.id);
+  }
+
+  async createFolder(folder: Pick<Folder, "userId" | "parentId" | "name">): Promise<Folder> {
+    const [newFolder] = await db.insert(folders).values(folder).returning();
+    return newFolder;
+  }
+
+  async updateFolder(id: number, updates: Partial<Folder>): Promise<Folder> {
+    const [updatedFolder] = await db
+      .update(folders)
+      .set(updates)
+      .where(eq(folders.id, id))
+      .returning();
+
+    if (!updatedFolder) throw new Error("Folder not found");
+    return updatedFolder;
+  }
+
+  // Removes a folder and its subfolders. The documents in them go to the
+  // trash (restoring puts them at the top level) and links sharing any of the
+  // folders are revoked.
+  async deleteFolder(id: number): Promise<void> {
+    const folderIds = await this.getFolderSubtreeIds(id);
+
+    await db.transaction(async (tx) => {
+      await tx
+        .update(documents)
+        .set({ folderId: null, deletedAt: sql`coalesce(${documents.deletedAt}, now())` })
+        .where(inArray(documents.folderId, folderIds));
+      await tx
+        .update(shareLinks)
+        .set({ folderId: null, documentIds: [], revoked: true })
+        .where(inArray(shareLinks.folderId, folderIds));
+      await tx
+        .update(uploadSessions)
+        .set({ folderId: null })
+        .where(inArray(uploadSessions.folderId, folderIds));
+      await tx.delete(folders).where(inArray(folders.id, folderIds));
+    });
+  }
+
+  async getUploadSessions(userId: number): Promise<UploadSession[]> {
+    return await db
+      .select()
+      .from(uploadSessions)
+      .where(and(eq(uploadSessions.userId, userId), gt(uploadSessions.expiresAt, new Date())))
+      .orderBy(asc(uploadSessions.createdAt));
+  }
+
+  async getUploadSession(id: number): Promise<UploadSession | undefined> {
+    const [upload] = await db.select().from(uploadSessions).where(eq(uploadSessions.id, id));
+    return upload;
+  }
+
+  async createUploadSession(
+    upload: Omit<UploadSession, "id" | "createdAt" | "receivedBytes" | "chunkKeys">,
+  ): Promise<UploadSession> {
+    const [newUpload] = await db.insert(uploadSessions).values(upload).returning();
+    return newUpload;
+  }
+
+  // Records a stored chunk, unless another chunk landed at the same offset
+  // first, in which case nothing changes and undefined is returned
+  async appendUploadChunk(
+    upload: UploadSession,
+    chunk: StoredContent,
+    expiresAt: Date,
+  ): Promise<UploadSession | undefined> {
+    const [updatedUpload] = await db
+      .update(uploadSessions)
+      .set({
+        receivedBytes: upload.receivedBytes + chunk.size,
+        chunkKeys: [...upload.chunkKeys, chunk.blobKey],
+        expiresAt,
+      })
+      .where(
+        and(
+          eq(uploadSessions.id, upload.id),
+          eq(uploadSessions.receivedBytes, upload.receivedBytes),
+        ),
+      )
+      .returning();
+    return updatedUpload;
+  }
+
+  async deleteUploadSession(id: number): Promise<UploadSession | undefined> {
+    const [deletedUpload] = await db
+      .delete(uploadSessions)
+      .where(eq(uploadSessions.id, id))
+      .returning();
+    return deletedUpload;
+  }
+
+  async getExpiredUploadSessions(): Promise<UploadSession[]> {
+    return await db
+      .select()
+      .from(uploadSessions)
+      .where(lt(uploadSessions.expiresAt, new Date()));
+  }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+export const storage = new DatabaseStorage(createBlobStore());
\ No newline at end of file
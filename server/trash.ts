@@ -0,0 +1,28 @@
+import { storage } from "./storage";
+
+// How long deleted documents stay restorable
+const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export function purgeDate(deletedAt: Date) {
+  return new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+}
+
+// Permanently deletes documents that have been in the trash past the retention period
+export async function purgeTrash() {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  const expired = await storage.getDocumentsTrashedBefore(cutoff);
+  for (const document of expired) {
+    await storage.deleteDocument(document.id);
+  }
+  return expired;
+}
+
+export function startTrashPurge() {
+  const timer = setInterval(() => {
+    purgeTrash().catch((error) => {
+      console.error("Error purging trash:", error);
+    });
+  }, PURGE_INTERVAL_MS);
+  timer.unref();
+}
@@ -0,0 +1,114 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import type { User } from "@shared/schema";
+
+// Time-based one-time passwords (RFC 6238) as authenticator apps expect them
+// by default: HMAC-SHA1, 6 digits, 30 second steps.
+const TOTP_DIGITS = 6;
+const TOTP_STEP_SECONDS = 30;
+// Codes from one step either side are accepted, for clocks that drift
+const TOTP_DRIFT_STEPS = 1;
+const TOTP_ISSUER = process.env.TOTP_ISSUER || "Document Management System";
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function toBase32(bytes: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of Array.from(bytes)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function fromBase32(text: string) {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of text.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret() {
+  return toBase32(randomBytes(20));
+}
+
+// What authenticator apps read from the enrollment QR code
+export function totpUri(secret: string, accountName: string) {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  // Spaces as %20, not the "+" URLSearchParams writes, which some apps show as-is
+  const params = Object.entries({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  }).map(([name, value]) => `${name}=${encodeURIComponent(value)}`);
+  return `otpauth://totp/${label}?${params.join("&")}`;
+}
+
+function totpCode(key: Buffer, counter: number) {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac("sha1", key).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+// The time step `code` is valid for, or null if it is not valid now
+export function verifyTotp(secret: string, code: string, now = Date.now()) {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) return null;
+
+  const key = fromBase32(secret);
+  const current = Math.floor(now / 1000 / TOTP_STEP_SECONDS);
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const counter = current + drift;
+    if (timingSafeEqual(Buffer.from(totpCode(key, counter)), Buffer.from(code))) {
+      return counter;
+    }
+  }
+  return null;
+}
+
+// Recovery codes look like "k3v9q-7hx2m": 50 random bits, easy to type
+export function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = toBase32(randomBytes(7)).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+// Codes are random enough that a fast hash is safe, and it lets them be
+// looked up directly. Case and dashes do not matter when typing one in.
+export function hashRecoveryCode(code: string) {
+  const normalized = code.replace(/[\s-]/g, "").toLowerCase();
+  return createHash("sha256").update(normalized).digest("hex");
+}
+
+// Checks a code entered as the second factor: a TOTP code that has not been
+// used before, or an unused recovery code, which is then used up.
+export async function verifySecondFactor(user: User, code: string) {
+  if (!user.totpSecret) return false;
+
+  const counter = verifyTotp(user.totpSecret, code);
+  if (counter !== null) return await storage.useTotpCounter(user.id, counter);
+  return await storage.useRecoveryCode(user.id, hashRecoveryCode(code));
+}
@@ -0,0 +1,81 @@
+import type { Request, RequestHandler } from "express";
+import multer from "multer";
+import { storage } from "./storage";
+import { FileTypeError, peekStream, resolveContentType } from "./file-types";
+
+declare global {
+  namespace Express {
+    namespace Multer {
+      interface File {
+        blobKey: string;
+        checksum: string;
+      }
+    }
+  }
+}
+
+export const MAX_UPLOAD_BYTES =
+  Number(process.env.MAX_UPLOAD_BYTES) || 10 * 1024 * 1024; // 10MB by default
+
+// Multer storage engine that pipes each file straight into the blob store
+// instead of buffering it in memory. The file's first bytes are checked
+// against its claimed type before anything is stored, and `mimetype` is
+// replaced with the type the file was resolved to.
+class BlobStorageEngine implements multer.StorageEngine {
+  _handleFile(
+    req: Request,
+    file: Express.Multer.File,
+    callback: (error?: any, info?: Partial<Express.Multer.File>) => void,
+  ) {
+    peekStream(file.stream)
+      .then(async ({ head, stream }) => {
+        const mimetype = resolveContentType(file.mimetype, head);
+        const stored = await storage.writeContent(req.user!.id, stream);
+        return { ...stored, mimetype };
+      })
+      .then((stored) => callback(null, stored))
+      .catch(callback);
+  }
+
+  _removeFile(
+    _req: Request,
+    file: Express.Multer.File,
+    callback: (error: Error | null) => void,
+  ) {
+    storage
+      .deleteContent(file.blobKey)
+      .then(() => callback(null))
+      .catch(callback);
+  }
+}
+
+const upload = multer({
+  storage: new BlobStorageEngine(),
+  limits: {
+    fileSize: MAX_UPLOAD_BYTES,
+  },
+});
+
+// Accepts one file in `field` from a logged-in user. Anonymous requests are
+// turned away before any bytes are stored.
+export function uploadSingle(field: string): RequestHandler {
+  const handler = upload.single(field);
+
+  return (req, res, next) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    handler(req, res, (error?: unknown) => {
+      if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+        return res.status(413).json({
+          message: `File is larger than the ${Math.floor(MAX_UPLOAD_BYTES / (1024 * 1024))}MB limit`,
+        });
+      }
+      if (error instanceof FileTypeError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      next(error);
+    });
+  };
+}
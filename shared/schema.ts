@@ -1,40 +1,605 @@
-import { pgTable, text, serial, boolean, jsonb } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  serial,
+  boolean,
+  jsonb,
+  integer,
+  timestamp,
+  unique,
+  index,
+  customType,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+const tsvector = customType<{ data: string }>({
+  dataType: () => "tsvector",
+});
+
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull(),
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   pin: text("pin").notNull(),
+  isAdmin: boolean("is_admin").notNull().default(false),  // only ever set in the database
+  // Base32 TOTP secret; two-factor login is on when it is set
+  totpSecret: text("totp_secret"),
+  // Time step of the last code accepted, so no code is accepted twice
+  totpLastCounter: integer("totp_last_counter"),
+  // A known value encrypted with the end-to-end passphrase key, so a mistyped
+  // passphrase is caught before anything is encrypted with it
+  endToEndKeyCheck: text("end_to_end_key_check"),
+});
+
+export const folders = pgTable("folders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  parentId: integer("parent_id").references((): AnyPgColumn => folders.id),  // null = top level
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow().$onUpdate(() => new Date()),
 });
 
 export const documents = pgTable("documents", {
   id: serial("id").primaryKey(),
   userId: serial("user_id").references(() => users.id),
   name: text("name").notNull(),
+  folderId: integer("folder_id").references(() => folders.id),  // null = top level
+  // Legacy base64 bytes; only set on rows not yet moved by `npm run blobs:migrate`
+  content: text("content"),
+  contentType: text("content_type").notNull(),
+  blobKey: text("blob_key"),
+  size: integer("size"),
+  checksum: text("checksum"),  // sha256, hex
+  // Encrypted in the owner's browser; the server cannot read, convert or preview it
+  endToEnd: boolean("end_to_end").notNull().default(false),
+  // Number of the version whose bytes the columns above hold
+  version: integer("version").notNull().default(1),
+  tags: jsonb("tags").$type<string[]>().notNull().default([]),
+  customFields: jsonb("custom_fields").$type<CustomFields>().notNull().default({}),
+  // Set while the document is in the trash; purged for good after the retention period
+  deletedAt: timestamp("deleted_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow().$onUpdate(() => new Date()),
+  // Name and tags for full-text search; the extracted text lives in document_texts
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', name), 'A') || setweight(to_tsvector('english', tags::text), 'B')`,
+  ),
+}, (table) => [index("documents_search_idx").using("gin", table.searchVector)]);
+
+// Text extracted from a document's current version, kept apart from the
+// document row so listings do not load it
+export const documentTexts = pgTable("document_texts", {
+  documentId: integer("document_id").primaryKey().references(() => documents.id),
+  version: integer("version").notNull(),  // the version the text was extracted from
   content: text("content").notNull(),
+  searchVector: tsvector("search_vector").generatedAlwaysAs(
+    sql`to_tsvector('english', content)`,
+  ),
+  extractedAt: timestamp("extracted_at").notNull().defaultNow(),
+}, (table) => [index("document_texts_search_idx").using("gin", table.searchVector)]);
+
+// Every upload of a document, numbered from 1. The newest one is mirrored on
+// the document row. Restoring an old version adds a new one with the same bytes.
+export const documentVersions = pgTable("document_versions", {
+  id: serial("id").primaryKey(),
+  documentId: integer("document_id").notNull().references(() => documents.id),
+  version: integer("version").notNull(),
   contentType: text("content_type").notNull(),
+  blobKey: text("blob_key").notNull(),
+  size: integer("size").notNull(),
+  checksum: text("checksum").notNull(),
+  endToEnd: boolean("end_to_end").notNull().default(false),
+  uploadedBy: integer("uploaded_by").notNull().references(() => users.id),
+  restoredFrom: integer("restored_from"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [unique().on(table.documentId, table.version)]);
+
+// Thumbnail and/or text preview of a document's current version, generated in
+// the background after upload. A row without either records that generation
+// failed, so it is not retried for that version.
+export const documentPreviews = pgTable("document_previews", {
+  documentId: integer("document_id").primaryKey().references(() => documents.id),
+  version: integer("version").notNull(),
+  thumbnailKey: text("thumbnail_key"),  // WebP, in the blob store
+  previewText: text("preview_text"),
+  error: text("error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+export const accessRequestStatuses = ["pending", "approved", "denied", "expired", "revoked"] as const;
+export type AccessRequestStatus = (typeof accessRequestStatuses)[number];
+
 export const accessRequests = pgTable("access_requests", {
   id: serial("id").primaryKey(),
   userId: serial("user_id").references(() => users.id),
-  requestedDocuments: jsonb("requested_documents").$type<string[]>().notNull(),
+  requestedDocuments: jsonb("requested_documents").$type<number[]>().notNull(),
   requesterInfo: jsonb("requester_info").$type<{
     deviceInfo: string;
     location?: string;
     timestamp: string;
+    name?: string;
+    email?: string;
+    message?: string;
   }>().notNull(),
-  status: text("status").notNull(),  // pending, approved, denied
+  status: text("status").$type<AccessRequestStatus>().notNull(),
+  approvedDocuments: jsonb("approved_documents").$type<number[]>(),
+  requesterSessionId: text("requester_session_id"),
+  // Handed to the requester so they can come back and check on the decision
+  receiptToken: text("receipt_token").unique(),
+  // Versions pinned by the link the request came through; grants keep them
+  pinnedVersions: jsonb("pinned_versions").$type<PinnedVersion[]>().notNull().default([]),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per status change of an access request, oldest first
+export const accessRequestEvents = pgTable("access_request_events", {
+  id: serial("id").primaryKey(),
+  accessRequestId: integer("access_request_id").notNull().references(() => accessRequests.id),
+  fromStatus: text("from_status").$type<AccessRequestStatus>().notNull(),
+  toStatus: text("to_status").$type<AccessRequestStatus>().notNull(),
+  actorType: text("actor_type").$type<"owner" | "requester" | "system">().notNull(),
+  actorId: integer("actor_id"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Created when an owner approves a request; lets the requester's session read the documents
+export const accessGrants = pgTable("access_grants", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  accessRequestId: integer("access_request_id").notNull().references(() => accessRequests.id),
+  sessionId: text("session_id").notNull(),
+  documentIds: jsonb("document_ids").$type<number[]>().notNull(),
+  // Documents listed here are readable at that version only, as through the link
+  pinnedVersions: jsonb("pinned_versions").$type<PinnedVersion[]>().notNull().default([]),
+  expiresAt: timestamp("expires_at").notNull(),
+  revoked: boolean("revoked").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const shareLinks = pgTable("share_links", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  token: text("token").notNull().unique(),
+  documentIds: jsonb("document_ids").$type<number[]>(),  // null = every document of the owner
+  // Set instead of documentIds to share a folder and everything below it, as its contents change
+  folderId: integer("folder_id").references(() => folders.id),
+  // Narrows the link to documents matching these tags and fields, as they change
+  filter: jsonb("filter").$type<DocumentFilter>(),
+  // Documents listed here are shared at that version; all others at their latest
+  pinnedVersions: jsonb("pinned_versions").$type<PinnedVersion[]>().notNull().default([]),
+  expiresAt: timestamp("expires_at").notNull(),
+  revoked: boolean("revoked").notNull().default(false),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// A resumable upload in progress. Each received chunk is its own blob until
+// the upload completes and they are joined into the document's blob.
+export const uploadSessions = pgTable("upload_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  contentType: text("content_type").notNull(),
+  folderId: integer("folder_id").references(() => folders.id),
+  size: integer("size").notNull(),
+  checksum: text("checksum").notNull(),  // sha256 the client computed, hex
+  endToEnd: boolean("end_to_end").notNull().default(false),
+  receivedBytes: integer("received_bytes").notNull().default(0),
+  chunkKeys: jsonb("chunk_keys").$type<string[]>().notNull().default([]),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Envelope encryption: every blob has its own data key, wrapped by its
+// owner's key, which is in turn wrapped by a master key from the server's
+// config. Rotating either wrapping key only rewrites these rows.
+export const userKeys = pgTable("user_keys", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  wrappedKey: text("wrapped_key").notNull(),
+  masterKeyId: text("master_key_id").notNull(),  // which configured master key wraps it
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  rotatedAt: timestamp("rotated_at"),
+});
+
+// Blobs without a row here were stored before encryption and are read as-is
+export const contentKeys = pgTable("content_keys", {
+  blobKey: text("blob_key").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  wrappedKey: text("wrapped_key").notNull(),
+  iv: text("iv").notNull(),  // initial AES-CTR counter block, base64
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("content_keys_user_idx").on(table.userId)]);
+
+// Single-use codes for logging in without the authenticator app. Only their
+// hashes are kept; the codes themselves are shown once.
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("recovery_codes_user_idx").on(table.userId)]);
+
+// PIN attempts per owner ("user:<id>") and per client ("ip:<address>"), kept
+// here so backoff and lockouts survive restarts
+export const pinAttempts = pgTable("pin_attempts", {
+  key: text("key").primaryKey(),
+  failures: integer("failures").notNull().default(0),  // since the last correct PIN
+  blockedUntil: timestamp("blocked_until"),  // no attempts are taken before this
+  lastAttemptAt: timestamp("last_attempt_at").notNull().defaultNow(),
+});
+
+// Each time PIN entry on an owner's links locked out, kept until the owner
+// dismisses it so they find out even if they were offline at the time
+export const pinLockouts = pgTable("pin_lockouts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  failures: integer("failures").notNull(),
+  lockedUntil: timestamp("locked_until").notNull(),
+  dismissedAt: timestamp("dismissed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [index("pin_lockouts_user_idx").on(table.userId)]);
+
+// Request counts per rate-limited route group and client ("login:<address>"),
+// when the database rate limit store is in use
+export const rateLimits = pgTable("rate_limits", {
+  key: text("key").primaryKey(),
+  hits: integer("hits").notNull(),
+  maxHits: integer("max_hits").notNull(),  // the limit the hits are counted against
+  windowEndsAt: timestamp("window_ends_at").notNull(),
 });
 
 export const insertUserSchema = createInsertSchema(users);
 export const insertDocumentSchema = createInsertSchema(documents);
 export const insertAccessRequestSchema = createInsertSchema(accessRequests);
 
+// Files encrypted in the browser start with these bytes, then the document's
+// own key wrapped with the owner's passphrase key (AES-GCM IV, key and tag),
+// then the AES-GCM IV of the contents
+export const END_TO_END_MAGIC = "QRVE2";
+export const END_TO_END_WRAPPED_KEY_BYTES = 12 + 32 + 16;
+export const END_TO_END_IV_BYTES = 12;
+export const END_TO_END_HEADER_BYTES =
+  END_TO_END_MAGIC.length + END_TO_END_WRAPPED_KEY_BYTES + END_TO_END_IV_BYTES;
+
+export const downloadFormats = ["original", "pdf", "docx", "png"] as const;
+export type DownloadFormat = (typeof downloadFormats)[number];
+
+export const customFieldTypes = ["text", "date", "number"] as const;
+export type CustomFieldType = (typeof customFieldTypes)[number];
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+export const customFieldValueSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), value: z.string().trim().min(1).max(500) }),
+  z.object({ type: z.literal("date"), value: isoDateSchema }),
+  z.object({ type: z.literal("number"), value: z.number().finite() }),
+]);
+
+const tagSchema = z.string().trim().min(1).max(50);
+const fieldKeySchema = z.string().trim().min(1).max(50);
+
+export const updateDocumentLabelsSchema = z.object({
+  tags: z
+    .array(tagSchema)
+    .max(20)
+    .transform((tags) => Array.from(new Set(tags)))
+    .optional(),
+  customFields: z
+    .record(fieldKeySchema, customFieldValueSchema)
+    .refine((fields) => Object.keys(fields).length <= 20, "At most 20 fields")
+    .optional(),
+});
+
+// Renaming, moving (folderId null for the top level) and relabelling
+export const updateDocumentSchema = updateDocumentLabelsSchema.extend({
+  name: z.string().trim().min(1, "Document name is required").max(255).optional(),
+  folderId: z.number().int().positive().nullable().optional(),
+});
+
+// Text fields match exactly or by substring; dates and numbers also by range
+export const fieldConditionSchema = z.discriminatedUnion("type", [
+  z.object({
+    key: fieldKeySchema,
+    type: z.literal("text"),
+    op: z.enum(["eq", "contains"]),
+    value: z.string().min(1),
+  }),
+  z.object({
+    key: fieldKeySchema,
+    type: z.literal("date"),
+    op: z.enum(["eq", "lt", "gt"]),
+    value: isoDateSchema,
+  }),
+  z.object({
+    key: fieldKeySchema,
+    type: z.literal("number"),
+    op: z.enum(["eq", "lt", "gt"]),
+    value: z.number().finite(),
+  }),
+]);
+
+export const documentFilterSchema = z.object({
+  tags: z.array(tagSchema).optional(),
+  fields: z.array(fieldConditionSchema).optional(),
+});
+
+export const documentSortFields = ["name", "createdAt", "updatedAt", "size"] as const;
+
+export const listDocumentsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+  sort: z.enum(documentSortFields).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  // Owners list one folder at a time; without it, the top level
+  folderId: z.coerce.number().int().positive().optional(),
+  // Comma-separated; documents must carry all of them
+  tags: z
+    .string()
+    .transform((tags) => tags.split(",").map((tag) => tag.trim()).filter(Boolean))
+    .optional(),
+  // JSON array of field conditions, all of which must hold
+  fields: z
+    .string()
+    .transform((fields, ctx) => {
+      try {
+        return JSON.parse(fields);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "fields must be JSON" });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.array(fieldConditionSchema))
+    .optional(),
+});
+
+const pinnedVersionSchema = z.object({
+  documentId: z.number().int().positive(),
+  version: z.number().int().positive(),
+});
+
+export const createShareLinkSchema = z
+  .object({
+    documentIds: z.array(z.number().int().positive()).min(1).optional(),
+    folderId: z.number().int().positive().optional(),
+    filter: documentFilterSchema.optional(),
+    pinnedVersions: z.array(pinnedVersionSchema).optional(),
+    expiresInHours: z.number().int().min(1).max(24 * 30).optional(),
+  })
+  .refine((link) => !(link.documentIds && (link.folderId || link.filter)), {
+    message: "A link shares either selected documents or a folder and/or filter, not both",
+  })
+  .refine((link) => !((link.folderId || link.filter) && link.pinnedVersions?.length), {
+    message: "Versions can only be pinned on links to selected documents",
+  });
+
+// Web search syntax: words, "quoted phrases", or, -excluded
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, "Search text is required").max(200),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(10),
+});
+
+const folderNameSchema = z.string().trim().min(1, "Folder name is required").max(255);
+
+export const createFolderSchema = z.object({
+  name: folderNameSchema,
+  parentId: z.number().int().positive().nullable().default(null),
+});
+
+// Renames and/or moves a folder; parentId null moves it to the top level
+export const updateFolderSchema = z.object({
+  name: folderNameSchema.optional(),
+  parentId: z.number().int().positive().nullable().optional(),
+});
+
+export const createAccessRequestSchema = z.object({
+  token: z.string().min(1),
+  requestedDocuments: z.array(z.number().int().positive()).min(1),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  email: z.string().trim().email().optional(),
+  message: z.string().trim().max(1000).optional(),
+  location: z.string().optional(),
+});
+
+// An owner's decision on an access request. documentIds narrows an approval
+// to some of the requested documents; expiresInHours is how long the grant lasts.
+export const updateAccessRequestSchema = z.object({
+  status: z.enum(accessRequestStatuses),
+  reason: z.string().trim().max(500).optional(),
+  documentIds: z.array(z.number().int().positive()).optional(),
+  expiresInHours: z.number().int().min(1).max(24 * 30).optional(),
+});
+
+export const createUploadSchema = z.object({
+  name: z.string().trim().min(1, "Document name is required").max(255),
+  contentType: z.string().min(1).default("application/octet-stream"),
+  size: z.number().int().positive(),
+  checksum: z.string().regex(/^[0-9a-f]{64}$/, "Checksum must be a hex sha256 digest"),
+  folderId: z.number().int().positive().nullable().default(null),
+  // The file was encrypted in the browser; contentType is that of the original
+  endToEnd: z.boolean().default(false),
+});
+
+// A TOTP code, or a recovery code in its place
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Code is required").max(32),
+});
+
+export const endToEndKeyCheckSchema = z.object({
+  keyCheck: z.string().min(1).max(200),
+});
+
+export const disableTwoFactorSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Password is required"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API tells clients about a user: no hashes or secrets
+export type PublicUser = Pick<
+  User,
+  "id" | "username" | "email" | "isAdmin" | "endToEndKeyCheck"
+> & {
+  twoFactorEnabled: boolean;
+};
 export type Document = typeof documents.$inferSelect;
-export type AccessRequest = typeof accessRequests.$inferSelect;
\ No newline at end of file
+export type NewDocument = Pick<Document, "userId" | "name" | "contentType" | "folderId">;
+// What list endpoints return: everything about a document except its bytes
+export type DocumentMetadata = Pick<
+  Document,
+  | "id"
+  | "name"
+  | "folderId"
+  | "contentType"
+  | "size"
+  | "checksum"
+  | "endToEnd"
+  | "version"
+  | "tags"
+  | "customFields"
+  | "createdAt"
+  | "updatedAt"
+>;
+export type DocumentVersion = typeof documentVersions.$inferSelect;
+export type AccessRequest = typeof accessRequests.$inferSelect;
+export type AccessRequestEvent = typeof accessRequestEvents.$inferSelect;
+export type AccessGrant = typeof accessGrants.$inferSelect;
+export type ShareLink = typeof shareLinks.$inferSelect;
+export type Folder = typeof folders.$inferSelect;
+export type PinnedVersion = z.infer<typeof pinnedVersionSchema>;
+export type CreateShareLink = z.infer<typeof createShareLinkSchema>;
+export type CreateAccessRequest = z.infer<typeof createAccessRequestSchema>;
+export type ListDocumentsQuery = z.infer<typeof listDocumentsQuerySchema>;
+export type SearchQuery = z.infer<typeof searchQuerySchema>;
+export type CustomFieldValue = z.infer<typeof customFieldValueSchema>;
+export type CustomFields = Record<string, CustomFieldValue>;
+export type FieldCondition = z.infer<typeof fieldConditionSchema>;
+export type DocumentFilter = z.infer<typeof documentFilterSchema>;
+export type UpdateDocumentLabels = z.infer<typeof updateDocumentLabelsSchema>;
+export type CreateFolder = z.infer<typeof createFolderSchema>;
+export type UpdateFolder = z.infer<typeof updateFolderSchema>;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type UserKey = typeof userKeys.$inferSelect;
+export type PinAttempt = typeof pinAttempts.$inferSelect;
+export type PinLockout = typeof pinLockouts.$inferSelect;
+export type RateLimit = typeof rateLimits.$inferSelect;
+export type CreateUpload = z.infer<typeof createUploadSchema>;
+export type TwoFactorCode = z.infer<typeof twoFactorCodeSchema>;
+export type DisableTwoFactor = z.infer<typeof disableTwoFactorSchema>;
+
+export type DocumentPreview = typeof documentPreviews.$inferSelect;
+
+// A listed document, with whatever preview of its current version is ready
+export type DocumentListing = DocumentMetadata & {
+  thumbnailUrl: string | null;
+  previewText: string | null;
+};
+
+export type DocumentPage = {
+  documents: DocumentListing[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+// Text split into the runs a search matched and the runs around them
+export type HighlightedText = { text: string; match: boolean }[];
+
+export type SearchResult = DocumentMetadata & {
+  highlightedName: HighlightedText;
+  // An excerpt of the extracted text, when the match was in it
+  snippet: HighlightedText | null;
+};
+
+export type SearchResultPage = {
+  results: SearchResult[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+// A document in the trash, and when it will be removed for good
+export type TrashedDocument = DocumentMetadata & {
+  deletedAt: string;
+  purgeAt: string;
+};
+
+// A version as listed in a document's history
+export type DocumentVersionInfo = Omit<DocumentVersion, "blobKey"> & {
+  uploader: { id: number; username: string };
+};
+
+export type AccessRequestWithDocuments = AccessRequest & {
+  documents: { id: number; name: string }[];
+};
+
+// What someone holding a share token gets to see
+export type SharedLinkView = DocumentPage & {
+  owner: { username: string };
+  expiresAt: string;
+  grantedDocumentIds: number[];
+};
+
+// What a requester sees when checking on their request with its receipt token
+export type AccessRequestReceipt = {
+  status: AccessRequestStatus;
+  createdAt: string;
+  owner: { username: string };
+  requestedDocuments: { id: number; name: string }[];
+  grantedDocuments: DocumentMetadata[];
+  grantExpiresAt: string | null;
+  reason: string | null;
+};
+
+// State of a resumable upload as the uploader sees it; the next chunk goes at `receivedBytes`
+export type UploadProgress = Pick<
+  UploadSession,
+  "id" | "name" | "contentType" | "size" | "checksum" | "receivedBytes"
+> & {
+  expiresAt: string;
+  chunkSize: number;
+};
+
+// Pushed to a logged-in owner over the event socket
+export type ServerEvent =
+  | {
+      type: "access-request.created";
+      accessRequestId: number;
+      requesterName: string | null;
+      documentCount: number;
+    }
+  | { type: "access-request.expired"; accessRequestId: number }
+  | {
+      type: "document.viewed";
+      documentId: number;
+      documentName: string;
+      accessRequestId: number;
+    }
+  | { type: "pin.locked"; failures: number; lockedUntil: string };
+
+// A client kept out by a rate limit, or from entering PINs, until `blockedUntil`
+export type Block = {
+  kind: "rate-limit" | "pin";
+  key: string;
+  count: number;
+  blockedUntil: string;
+};
+
+// Answer to a correct password when the account has two-factor login on
+export type TwoFactorChallenge = { twoFactorRequired: true };
+
+export type TwoFactorSetup = { secret: string; otpauthUrl: string };
+
+export type RecoveryCodes = { recoveryCodes: string[] };
+
+// One server-side conversion: documents of any `from` type can be downloaded as `to`
+export type ConversionCapability = {
+  from: string[];
+  to: Exclude<DownloadFormat, "original">;
+};